@@ -1,69 +1,624 @@
-import React, { useState } from 'react';
-import { AppState, Answers, YearSummary } from './types';
-import { QUESTIONS } from './constants';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AppState, AnswerAttachments, AnswerMetaMap, Answers, AnswerValues, ArchiveEntry, DraggableItem, ExtractedAnswers, ImportConflict, JournalEntry, Locale, PacedPlan, PairSession, Question, QuestionPack, SessionDraft, SessionFile, TeamMember, TeamSession, WritingStatsMap, YearSummary } from './types';
 import { Welcome } from './components/Welcome';
 import { QuestionFlow } from './components/QuestionFlow';
 import { SummaryBoard } from './components/SummaryBoard';
-import { generateYearSummary, extractAnswersFromData } from './services/openaiService';
-import { Loader2 } from 'lucide-react';
+import { ArchiveView } from './components/ArchiveView';
+import { ComparisonView } from './components/ComparisonView';
+import { ReviewScreen } from './components/ReviewScreen';
+import { PackEditor } from './components/PackEditor';
+import { PacedHome } from './components/PacedHome';
+import { TeamView } from './components/TeamView';
+import { ImportNextStep, ImportReview } from './components/ImportReview';
+import { generateTeamSummary, generateYearSummary, extractAnswersFromData, extractAnswersFromText, toAnswers } from './services/openaiService';
+import { findPack, getAvailablePacks, loadActivePack, readQuestionPackFile, saveActivePackId, saveCustomPack } from './services/questionPackService';
+import { clearDraft, loadDraft, saveDraft } from './services/draftService';
+import { buildSessionFile, downloadJson, isJsonFile, readSessionFile } from './services/sessionFileService';
+import { deleteFromArchive, getArchiveKey, getDefaultReviewYear, loadArchive, saveToArchive } from './services/archiveService';
+import { compareAnswers, findPreviousEntry } from './services/comparisonService';
+import { deriveAnswerValues } from './services/answerValueService';
+import { getQuestionFlow } from './services/followUpService';
+import { buildImportedMeta, restoreImportedStatuses } from './services/answerStatusService';
+import { loadUiLocale, resolveLocale, saveUiLocale } from './services/localeService';
+import { createPacedPlan, extendBatch, getOpenQuestions, isPlanFinished, markBatchDone, refreshBatch, toDateKey } from './services/pacedService';
+import { scheduleReminder } from './services/reminderService';
+import { addProfile, createPair, getActiveName, isPairComplete, mergeProfileAttachments, mergeProfileWritingStats } from './services/pairService';
+import { buildTeamSession } from './services/teamService';
+import { readDocumentText } from './services/documentTextService';
+import { extractPdfText, isPdfFile, renderPdfPages } from './services/pdfService';
+import { FileExtraction, mergeFileExtractions } from './services/importMergeService';
+import { findJournalExcerpts, readJournalFiles } from './services/journalService';
+import { CsvImport, buildAnswersCsv, buildArchiveCsv, downloadCsv, isCsvFile, pickYearColumn, readAnswersCsv } from './services/csvService';
+import { BUILTIN_QUESTION_PACKS } from './constants';
+import { getStrings } from './i18n';
+import { ArrowRight, Loader2, Users } from 'lucide-react';
+
+const DRAFT_SAVE_DELAY_MS = 800;
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.WELCOME);
+  const [year, setYear] = useState<number>(() => getDefaultReviewYear());
   const [answers, setAnswers] = useState<Answers>({});
+  const [answerValues, setAnswerValues] = useState<AnswerValues>({});
   const [summary, setSummary] = useState<YearSummary | null>(null);
+  const [boardItems, setBoardItems] = useState<DraggableItem[]>([]);
   const [isProcessingFile, setIsProcessingFile] = useState(false);
+  const [importProgress, setImportProgress] = useState<{ done: number; total: number; file?: number; files?: number } | null>(null);
+  const [packs, setPacks] = useState<QuestionPack[]>(getAvailablePacks);
+  const [pack, setPack] = useState<QuestionPack>(loadActivePack);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [flagged, setFlagged] = useState<number[]>([]);
+  const [paced, setPaced] = useState<PacedPlan | null>(null);
+  const [pair, setPair] = useState<PairSession | null>(null);
+  const [team, setTeam] = useState<TeamSession | null>(null);
+  const [importedAnswers, setImportedAnswers] = useState<ExtractedAnswers | null>(null);
+  const [importConflicts, setImportConflicts] = useState<ImportConflict[]>([]);
+  // A spreadsheet with a column per year: the year it switches to and the years it archives, once confirmed
+  const [importedYears, setImportedYears] = useState<{ year: number; years: CsvImport['years'] } | null>(null);
+  const [journalEntries, setJournalEntries] = useState<JournalEntry[] | null>(null);
+  const [answerMeta, setAnswerMeta] = useState<AnswerMetaMap>({});
+  const [attachments, setAttachments] = useState<AnswerAttachments>({});
+  const [writingStats, setWritingStats] = useState<WritingStatsMap>({});
+  const [pendingDraft, setPendingDraft] = useState<SessionDraft | null>(null);
+  const [archiveEntries, setArchiveEntries] = useState<ArchiveEntry[]>([]);
+  const [showArchive, setShowArchive] = useState(false);
+  // An archived year opened to look at; nothing is saved until it is taken up for editing
+  const [viewingArchive, setViewingArchive] = useState(false);
+  const [showComparison, setShowComparison] = useState(false);
+  const [showPackEditor, setShowPackEditor] = useState(false);
+  const [locale, setLocale] = useState<Locale>(loadUiLocale);
+
+  const t = getStrings(locale);
+  // Generated text follows the pack's language, whatever the UI is set to
+  const contentLocale = resolveLocale(pack.locale);
+
+  // Journal excerpts follow the review year and pack; entries stay in memory and are never saved
+  const journal = useMemo(
+    () => (journalEntries ? findJournalExcerpts(journalEntries, pack.questions, year) : null),
+    [journalEntries, pack, year]
+  );
+
+  const latestDraftRef = useRef<Omit<SessionDraft, 'updatedAt'> | null>(null);
+
+  // Offer to resume an unfinished session from a previous visit
+  useEffect(() => {
+    loadDraft().then(draft => {
+      if (draft) setPendingDraft(draft);
+    });
+    refreshArchive();
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const refreshArchive = () => {
+    loadArchive().then(setArchiveEntries);
+  };
+
+  // Autosave (debounced) once a session has started. A team retro is other people's answers, so it is never stored,
+  // and an import only replaces the draft once it has been checked. A year opened from the archive leaves the draft alone.
+  useEffect(() => {
+    if (appState === AppState.WELCOME || appState === AppState.IMPORT_REVIEW || team || viewingArchive) {
+      latestDraftRef.current = null;
+      return;
+    }
+    const draft = { year, packId: pack.id, answers, answerValues, answerMeta, attachments, writingStats, currentIndex, flagged, paced: paced || undefined, pair: pair || undefined, summary, boardItems };
+    latestDraftRef.current = draft;
+    const timer = setTimeout(() => {
+      saveDraft(draft);
+      // Finished reviews also go into the multi-year archive; a pair's joint review isn't one person's year
+      if (appState === AppState.SUMMARY && summary && !pair) {
+        saveToArchive({ year, pack, answers, answerValues, answerMeta, attachments, writingStats, summary, boardItems });
+      }
+    }, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [appState, year, pack, answers, answerValues, answerMeta, attachments, writingStats, currentIndex, flagged, paced, pair, team, viewingArchive, summary, boardItems]);
+
+  // Flush the pending save when the tab is closed or hidden
+  useEffect(() => {
+    const flush = () => {
+      if (latestDraftRef.current) saveDraft(latestDraftRef.current);
+    };
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, []);
+
+  // Paced mode: each visit to the day screen closes off a finished batch, opens today's,
+  // and generates the summary once nothing is left or the end date has passed
+  useEffect(() => {
+    if (appState !== AppState.PACED || !paced) return;
+    if (isPlanFinished(paced, pack.questions, answers, answerMeta)) {
+      finishReview();
+      return;
+    }
+    const next = refreshBatch(markBatchDone(paced, answers, answerMeta), pack.questions, answers, answerMeta);
+    if (next !== paced) setPaced(next);
+  }, [appState, paced]);
+
+  const pacedDoneToday = !!paced?.completedDays.includes(toDateKey());
+
+  useEffect(() => {
+    if (!paced?.reminderTime || summary) return;
+    const open = getOpenQuestions(pack.questions, answers, answerMeta).length;
+    return scheduleReminder(paced.reminderTime, t.reminderTitle, t.reminderBody(Math.min(open, paced.perDay)), pacedDoneToday);
+    // Only re-arm when the reminder itself changes, not on every keystroke
+  }, [paced?.reminderTime, pacedDoneToday, summary, locale]);
+
+  const selectPack = (id: string) => {
+    const next = packs.find(p => p.id === id);
+    if (!next) return;
+    setPack(next);
+    saveActivePackId(next.id);
+  };
+
+  const changeLocale = (next: Locale) => {
+    setLocale(next);
+    saveUiLocale(next);
+    // Swap a built-in pack for the built-in one in the new language; custom packs are kept
+    if (BUILTIN_QUESTION_PACKS.some(p => p.id === pack.id) && resolveLocale(pack.locale) !== next) {
+      const localised = BUILTIN_QUESTION_PACKS.find(p => resolveLocale(p.locale) === next);
+      if (localised) selectPack(localised.id);
+    }
+  };
+
+  const handlePackImport = async (file: File) => {
+    try {
+      const imported = await readQuestionPackFile(file);
+      saveCustomPack(imported);
+      setPacks(getAvailablePacks());
+      setPack(imported);
+      saveActivePackId(imported.id);
+    } catch (error) {
+      console.error("Question pack import failed", error);
+      alert(t.packImportFailed(error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  const savePackEdits = (edited: QuestionPack) => {
+    try {
+      saveCustomPack(edited);
+    } catch (error) {
+      console.error("Saving the edited question pack failed", error);
+      alert(t.saveFailed);
+      return;
+    }
+    setPacks(getAvailablePacks());
+    setPack(edited);
+    saveActivePackId(edited.id);
+    setShowPackEditor(false);
+  };
 
   const startReview = () => {
+    // Starting over replaces any unfinished session
+    setPendingDraft(null);
+    setCurrentIndex(0);
+    setFlagged([]);
+    setBoardItems([]);
+    setPaced(null);
+    setPair(null);
+    setAppState(AppState.QUESTIONS);
+  };
+
+  const startPair = (names: [string, string]) => {
+    startReview();
+    setAnswers({});
+    setAnswerValues({});
+    setAnswerMeta({});
+    setAttachments({});
+    setWritingStats({});
+    setPair(createPair(names));
+  };
+
+  const startPaced = (perDay: number) => {
+    startReview();
+    setPaced(createPacedPlan(pack.questions, perDay));
+    setAppState(AppState.PACED);
+  };
+
+  const startPacedDay = () => {
+    setCurrentIndex(0);
     setAppState(AppState.QUESTIONS);
   };
 
-  const handleFileUpload = async (file: File) => {
+  const resumeDraft = () => {
+    if (!pendingDraft) return;
+    // Answers and the position are keyed to the draft's own questions, so another pack can't stand in
+    const draftPack = findPack(pendingDraft.packId);
+    if (!draftPack) {
+      alert(t.draftPackMissing);
+      return;
+    }
+    setYear(pendingDraft.year || getDefaultReviewYear());
+    setPack(draftPack);
+    saveActivePackId(draftPack.id);
+    setAnswers(pendingDraft.answers);
+    setAnswerValues(deriveAnswerValues(draftPack.questions, pendingDraft.answers, pendingDraft.answerValues));
+    setCurrentIndex(Math.min(Math.max(0, pendingDraft.currentIndex || 0), draftPack.questions.length - 1));
+    setAnswerMeta(pendingDraft.answerMeta || {});
+    setAttachments(pendingDraft.attachments || {});
+    setWritingStats(pendingDraft.writingStats || {});
+    setFlagged(pendingDraft.flagged || []);
+    setPaced(pendingDraft.paced || null);
+    setPair(pendingDraft.pair || null);
+    setSummary(pendingDraft.summary);
+    setBoardItems(pendingDraft.boardItems || []);
+    setPendingDraft(null);
+    setAppState(pendingDraft.summary ? AppState.SUMMARY : pendingDraft.paced ? AppState.PACED : AppState.QUESTIONS);
+  };
+
+  const discardDraft = () => {
+    setPendingDraft(null);
+    clearDraft();
+  };
+
+  // readOnly keeps the unfinished draft: the session is only shown until continueArchived is chosen
+  const restoreSession = (session: Pick<SessionFile, 'year' | 'packId' | 'pack' | 'answers' | 'answerValues' | 'answerMeta' | 'attachments' | 'writingStats' | 'pair' | 'summary' | 'boardItems'>, readOnly = false) => {
+    let sessionPack = findPack(session.packId);
+    if (!sessionPack && session.pack) {
+      try {
+        saveCustomPack(session.pack);
+        setPacks(getAvailablePacks());
+      } catch (error) {
+        console.warn("Could not store the session's question pack", error);
+      }
+      sessionPack = session.pack;
+    }
+    // The answers are keyed to that pack's questions; any other pack would file them under the wrong ones
+    if (!sessionPack) {
+      alert(t.sessionPackMissing(session.packId));
+      return;
+    }
+
+    setYear(session.year);
+    setPack(sessionPack);
+    saveActivePackId(sessionPack.id);
+    setAnswers(session.answers);
+    setAnswerValues(deriveAnswerValues(sessionPack.questions, session.answers, session.answerValues));
+    setSummary(session.summary);
+    setAnswerMeta(session.answerMeta || {});
+    setAttachments(session.attachments || {});
+    setWritingStats(session.writingStats || {});
+    setBoardItems(session.boardItems);
+    setCurrentIndex(0);
+    setFlagged([]);
+    setPaced(null);
+    setPair(session.pair || null);
+    if (!readOnly) setPendingDraft(null);
+    setViewingArchive(readOnly);
+    setShowArchive(false);
+    setAppState(session.summary ? AppState.SUMMARY : AppState.QUESTIONS);
+  };
+
+  // Taking up an archived year makes it the session that is saved, in place of any unfinished draft
+  const continueArchived = () => {
+    if (pendingDraft && !confirm(t.replaceDraftConfirm)) return;
+    setPendingDraft(null);
+    setViewingArchive(false);
+  };
+
+  const deleteArchiveEntry = async (key: string) => {
+    await deleteFromArchive(key);
+    refreshArchive();
+  };
+
+  const previousEntry = findPreviousEntry(archiveEntries, year, pack.id);
+  // A pair's board describes both people: stats and pictures from each profile, answers side by side
+  const pairBoard = pair ? mergeProfileWritingStats(pair.profiles) : null;
+
+  const getComparisons = (entry: ArchiveEntry) => {
+    // A different pack can only be lined up by question text
+    const previousQuestions = entry.packId === pack.id
+      ? undefined
+      : (findPack(entry.packId) || entry.pack)?.questions || [];
+    return compareAnswers(pack.questions, answers, entry.answers, previousQuestions, answerValues, entry.answerValues);
+  };
+
+  const exportSession = () => {
+    downloadJson(buildSessionFile({ year, pack, answers, answerValues, answerMeta, attachments, writingStats, pair, summary, boardItems }), `${year}-Year-Review.session.json`);
+  };
+
+  const exportCsv = () => {
+    downloadCsv(buildAnswersCsv(pack.questions, answers, answerMeta, contentLocale), `${year}-Year-Review.csv`);
+  };
+
+  // Every archived year of one pack, as the pack stands now (or as it was snapshotted)
+  const exportArchiveCsv = (packId: string) => {
+    const entries = archiveEntries.filter(entry => entry.packId === packId);
+    const archivePack = findPack(packId) || entries[0]?.pack;
+    if (!archivePack) return;
+    downloadCsv(buildArchiveCsv(archivePack.questions, entries, resolveLocale(archivePack.locale)), `${archivePack.title}-Past-Years.csv`);
+  };
+
+  const toTeamMember = (extracted: ExtractedAnswers, questions: Question[]): TeamMember => {
+    const memberAnswers = toAnswers(extracted);
+    return { answers: memberAnswers, answerValues: deriveAnswerValues(questions, memberAnswers), answerMeta: buildImportedMeta(memberAnswers) };
+  };
+
+  // A spreadsheet with a column per year: the year being reviewed (or the latest) is imported
+  const extractCsv = async (file: File) => {
+    const table = readAnswersCsv(await file.text(), pack.questions);
+    if (table.years.length === 0) return table.answers || table.people[0] || {};
+    return pickYearColumn(table.years, year).extracted;
+  };
+
+  // The spreadsheet's other years go straight to the archive, without a summary.
+  // Years already archived for this pack are left as they are.
+  const archiveCsvYears = async (years: CsvImport['years'], imported: number) => {
+    for (const column of years) {
+      const yearAnswers = toAnswers(column.extracted);
+      if (column.year === imported || Object.keys(yearAnswers).length === 0) continue;
+      if (archiveEntries.some(entry => entry.key === getArchiveKey(column.year, pack.id))) continue;
+      await saveToArchive({
+        year: column.year,
+        pack,
+        answers: yearAnswers,
+        answerValues: deriveAnswerValues(pack.questions, yearAnswers),
+        answerMeta: buildImportedMeta(yearAnswers),
+        summary: null,
+        boardItems: [],
+      });
+    }
+    refreshArchive();
+  };
+
+  const extractWithModel = async (file: File, documentText?: string, pageImages?: string[]) => {
+    // 1. Convert file to base64
+    const base64Data = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => {
+        const result = reader.result as string;
+        // Remove data URL prefix (e.g., "data:application/pdf;base64,")
+        const base64 = result.split(',')[1];
+        resolve(base64);
+      };
+      reader.onerror = reject;
+      reader.readAsDataURL(file);
+    });
+
+    // 2. Extract answers using Gemini
+    // Ensure we have a mimeType, fallback to text/plain if empty
+    const mimeType = file.type || 'text/plain';
+    return extractAnswersFromData(base64Data, mimeType, pack.questions, documentText, pageImages, (done, total) => setImportProgress(prev => ({ ...prev, done, total })));
+  };
+
+  // A PDF's text layer, or undefined when it has none (scans) or can't be opened
+  const readPdfText = async (file: File) => {
+    try {
+      return (await extractPdfText(await file.arrayBuffer())) || undefined;
+    } catch (error) {
+      console.warn("Could not read the PDF's text layer", error);
+      return undefined;
+    }
+  };
+
+  // PDFs with a text layer are parsed from it; scans (no text layer) are sent page by page as images
+  const extractPdf = async (file: File) => {
+    const text = await readPdfText(file);
+    if (text) return extractWithModel(file, text);
+    return extractWithModel(file, undefined, await renderPdfPages(await file.arrayBuffer()));
+  };
+
+  // Spreadsheets, Word and HTML files are read here and parsed without leaving the browser;
+  // anything else is sent to the model as base64
+  const extractFile = async (file: File) => {
+    if (isCsvFile(file)) return extractCsv(file);
+    const documentText = await readDocumentText(file);
+    if (documentText !== null) return extractAnswersFromText(documentText, pack.questions);
+    return isPdfFile(file) ? extractPdf(file) : extractWithModel(file);
+  };
+
+  const handleFileUpload = async (files: File[]) => {
     setIsProcessingFile(true);
     try {
-      // 1. Convert file to base64
-      const base64Data = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => {
-          const result = reader.result as string;
-          // Remove data URL prefix (e.g., "data:application/pdf;base64,")
-          const base64 = result.split(',')[1];
-          resolve(base64);
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(file);
-      });
+      // 0. A saved session file restores exactly, without any model call
+      const [file] = files;
+      if (files.length === 1 && isJsonFile(file)) {
+        let session: SessionFile | null = null;
+        try {
+          session = await readSessionFile(file);
+        } catch (error) {
+          console.error("Session import failed", error);
+          alert(t.sessionOpenFailed(error instanceof Error ? error.message : String(error)));
+          return;
+        }
+        if (session) {
+          // Like any import, a session file only replaces an unfinished draft once that is confirmed
+          if (!pendingDraft || confirm(t.replaceDraftConfirm)) restoreSession(session);
+          return;
+        }
+      }
+
+      // 0b. A spreadsheet with a row per person is a team's answers. One with a column per year also
+      // sets the review year and fills the archive, but only once the import is confirmed.
+      let years: { year: number; years: CsvImport['years'] } | null = null;
+      const results: FileExtraction[] = [];
+      if (files.length === 1 && isCsvFile(file)) {
+        const table = readAnswersCsv(await file.text(), pack.questions);
+        if (table.people.length > 1) {
+          openTeam(pack, { members: table.people.map(person => toTeamMember(person, pack.questions)), skippedFiles: 0 });
+          return;
+        }
+        if (table.years.length > 0) {
+          const column = pickYearColumn(table.years, year);
+          years = { year: column.year, years: table.years };
+          results.push({ fileName: file.name, extracted: column.extracted });
+        }
+      }
 
-      // 2. Extract answers using Gemini
-      // Ensure we have a mimeType, fallback to text/plain if empty
-      const mimeType = file.type || 'text/plain';
-      
-      const extractedAnswers = await extractAnswersFromData(base64Data, mimeType);
-      
-      if (Object.keys(extractedAnswers).length === 0) {
+      // 1. Extract each file (unless the spreadsheet above was already read); with several
+      // (one photo per page), one unreadable file doesn't stop the rest
+      const remaining = results.length > 0 ? [] : files;
+      for (const [index, next] of remaining.entries()) {
+        setImportProgress({ done: 0, total: 0, file: index + 1, files: files.length });
+        try {
+          results.push({ fileName: next.name, extracted: await extractFile(next) });
+        } catch (error) {
+          if (files.length === 1) throw error;
+          console.error(`Could not read ${next.name}`, error);
+        }
+      }
+
+      // 2. Merge by question; answers the files disagree on are left for the user to pick
+      const { merged, conflicts } = results.length > 1
+        ? mergeFileExtractions(results)
+        : { merged: results[0]?.extracted || {}, conflicts: [] };
+      if (Object.keys(toAnswers(merged)).length === 0) {
         throw new Error("No answers extracted");
       }
 
-      setAnswers(extractedAnswers);
-      
-      // 3. Generate Summary immediately
-      setAppState(AppState.ANALYZING);
-      const result = await generateYearSummary(extractedAnswers, QUESTIONS);
-      setSummary(result);
-      setAppState(AppState.SUMMARY);
+      // 3. Let the user check what was found before anything is replaced
+      setImportedAnswers(merged);
+      setImportConflicts(conflicts);
+      setImportedYears(years);
+      setAppState(AppState.IMPORT_REVIEW);
 
     } catch (error) {
       console.error("File processing failed", error);
-      alert("抱歉，无法读取该文件或未在文件中找到回答。请确保文件包含清晰的文字。");
+      alert(t.fileReadFailed);
       setAppState(AppState.WELCOME);
+    } finally {
+      setIsProcessingFile(false);
+      setImportProgress(null);
+    }
+  };
+
+  const finishImport = async (importAnswers: Answers, edited: number[], next: ImportNextStep) => {
+    const importValues = deriveAnswerValues(pack.questions, importAnswers);
+    const importMeta = restoreImportedStatuses(buildImportedMeta(importAnswers), importAnswers, importedAnswers || {});
+    edited.forEach(id => {
+      if (importMeta[id]) importMeta[id] = { ...importMeta[id], edited: true };
+    });
+    setAnswers(importAnswers);
+    setAnswerValues(importValues);
+    setAnswerMeta(importMeta);
+    setAttachments({});
+    setWritingStats({});
+    setSummary(null);
+    setBoardItems([]);
+    setCurrentIndex(0);
+    setFlagged([]);
+    setPaced(null);
+    setPair(null);
+    setPendingDraft(null);
+    setImportedAnswers(null);
+    setImportConflicts([]);
+    setImportedYears(null);
+    if (importedYears) {
+      setYear(importedYears.year);
+      await archiveCsvYears(importedYears.years, importedYears.year);
+    }
+
+    if (next === 'questions') {
+      setAppState(AppState.QUESTIONS);
+      return;
+    }
+    setAppState(AppState.ANALYZING);
+    try {
+      setSummary(await generateYearSummary(importAnswers, pack.questions, importValues, importMeta, contentLocale));
+    } catch (e) {
+      console.error(e);
+    }
+    setAppState(AppState.SUMMARY);
+  };
+
+  const handleJournalImport = async (files: File[]) => {
+    setIsProcessingFile(true);
+    try {
+      const entries = await readJournalFiles(files);
+      if (!entries.some(entry => entry.date.startsWith(`${year}-`))) {
+        alert(t.journalNoEntries(year));
+        return;
+      }
+      setJournalEntries(entries);
+    } catch (error) {
+      console.error("Journal import failed", error);
+      alert(t.journalReadFailed);
+    } finally {
+      setIsProcessingFile(false);
+    }
+  };
+
+  const openTeam = (teamPack: QuestionPack, next: TeamSession) => {
+    setPack(teamPack);
+    setTeam(next);
+    setSummary(null);
+    setBoardItems([]);
+    setAppState(AppState.TEAM);
+  };
+
+  // Team retro: the facilitator picks every member's answers file at once. The pack comes from the first
+  // readable file; the draft on this device is left alone. Spreadsheets carry no pack, so their rows
+  // are read against the team's pack (the active one when there are only spreadsheets).
+  const handleTeamImport = async (files: File[]) => {
+    setIsProcessingFile(true);
+    try {
+      const sessions: SessionFile[] = [];
+      const tables: string[] = [];
+      for (const file of files) {
+        if (isCsvFile(file)) {
+          tables.push(await file.text());
+          continue;
+        }
+        try {
+          const session = await readSessionFile(file);
+          if (session) sessions.push(session);
+        } catch (error) {
+          console.warn(`Skipping ${file.name}`, error);
+        }
+      }
+      const teamPack = sessions[0] ? findPack(sessions[0].packId) || sessions[0].pack || pack : pack;
+      const next = buildTeamSession(sessions, teamPack.id);
+      const rows = tables.map(text => readAnswersCsv(text, teamPack.questions).people);
+      const members = [...next.members, ...rows.flat().map(person => toTeamMember(person, teamPack.questions))];
+      if (members.length === 0) {
+        alert(t.teamNoFiles);
+        return;
+      }
+      const unread = files.length - sessions.length - rows.filter(people => people.length > 0).length;
+      if (sessions[0]) setYear(sessions[0].year);
+      openTeam(teamPack, { members, skippedFiles: next.skippedFiles + unread });
+    } catch (error) {
+      console.error("Team import failed", error);
+      alert(t.teamImportFailed);
     } finally {
       setIsProcessingFile(false);
     }
   };
 
-  const finishReview = async () => {
+  const generateTeamBoard = async () => {
+    if (!team) return;
+    setBoardItems([]);
     setAppState(AppState.ANALYZING);
     try {
-      const result = await generateYearSummary(answers, QUESTIONS);
+      setSummary(await generateTeamSummary(team.members, pack.questions, contentLocale));
+      setAppState(AppState.SUMMARY);
+    } catch (e) {
+      console.error(e);
+      setAppState(AppState.TEAM);
+    }
+  };
+
+  const closeTeam = () => {
+    setTeam(null);
+    setSummary(null);
+    setBoardItems([]);
+    setPack(loadActivePack());
+    setAppState(AppState.WELCOME);
+  };
+
+  const editFromReview = (question: Question) => {
+    const index = getQuestionFlow(pack.questions, answers).findIndex(q => q.id === question.id);
+    setCurrentIndex(Math.max(0, index));
+    setAppState(AppState.QUESTIONS);
+  };
+
+  const generateSummary = async (pairSession: PairSession | null) => {
+    setBoardItems([]);
+    setPaced(null);
+    setAppState(AppState.ANALYZING);
+    try {
+      const result = await generateYearSummary(answers, pack.questions, answerValues, answerMeta, contentLocale, attachments, pairSession);
       setSummary(result);
       setAppState(AppState.SUMMARY);
     } catch (e) {
@@ -73,9 +628,44 @@ const App: React.FC = () => {
     }
   };
 
+  const finishReview = () => generateSummary(pair);
+
+  // Pair mode: the first person's answers are put away in their profile and the second starts on a blank page
+  const finishPairTurn = () => {
+    if (!pair) return;
+    const next = addProfile(pair, { answers, answerValues, answerMeta, attachments, writingStats });
+    setPair(next);
+    if (isPairComplete(next)) {
+      generateSummary(next);
+      return;
+    }
+    setAnswers({});
+    setAnswerValues({});
+    setAnswerMeta({});
+    setAttachments({});
+    setWritingStats({});
+    setCurrentIndex(0);
+    setFlagged([]);
+    setAppState(AppState.PAIR_HANDOFF);
+  };
+
+  // Leaving an archived year that was only looked at keeps the draft
   const retake = () => {
+    if (!viewingArchive) clearDraft();
+    setViewingArchive(false);
     setAnswers({});
+    setAnswerValues({});
+    setAnswerMeta({});
+    setAttachments({});
+    setWritingStats({});
     setSummary(null);
+    setBoardItems([]);
+    setCurrentIndex(0);
+    setFlagged([]);
+    setPaced(null);
+    setPair(null);
+    refreshArchive();
+    setShowComparison(false);
     setAppState(AppState.WELCOME);
   };
 
@@ -83,17 +673,136 @@ const App: React.FC = () => {
     <div className="antialiased min-h-screen">
       {appState === AppState.WELCOME && (
         <Welcome 
+          locale={locale}
+          onLocaleChange={changeLocale}
+          year={year}
+          onYearChange={setYear}
+          archiveCount={archiveEntries.length}
+          onOpenArchive={() => setShowArchive(true)}
+          packs={packs}
+          activePack={pack}
+          onSelectPack={selectPack}
+          onImportPack={handlePackImport}
+          onEditPack={() => setShowPackEditor(true)}
+          draft={pendingDraft}
+          onResumeDraft={resumeDraft}
+          onDiscardDraft={discardDraft}
           onStart={startReview} 
+          onStartPaced={startPaced}
+          onStartPair={startPair}
+          onTeamImport={handleTeamImport}
           onFileUpload={handleFileUpload}
+          onJournalImport={handleJournalImport}
+          journal={journalEntries && journal ? {
+            entries: journalEntries.filter(entry => entry.date.startsWith(`${year}-`)).length,
+            questions: Object.keys(journal).length,
+          } : null}
+          onClearJournal={() => setJournalEntries(null)}
           isProcessing={isProcessingFile}
+          progress={importProgress}
+        />
+      )}
+
+      {appState === AppState.PACED && paced && (
+        <PacedHome
+          locale={locale}
+          year={year}
+          pack={pack}
+          plan={paced}
+          answers={answers}
+          answerMeta={answerMeta}
+          onPlanChange={setPaced}
+          onStartToday={startPacedDay}
+          onKeepGoing={() => {
+            setPaced(extendBatch(paced, pack.questions, answers, answerMeta));
+            startPacedDay();
+          }}
+          onGenerateNow={finishReview}
         />
       )}
 
       {appState === AppState.QUESTIONS && (
         <QuestionFlow 
+          locale={locale}
+          pack={pack}
           answers={answers} 
           setAnswers={setAnswers} 
-          onComplete={finishReview} 
+          answerValues={answerValues}
+          setAnswerValues={setAnswerValues}
+          flagged={flagged}
+          setFlagged={setFlagged}
+          answerMeta={answerMeta}
+          setAnswerMeta={setAnswerMeta}
+          attachments={attachments}
+          setAttachments={setAttachments}
+          setWritingStats={setWritingStats}
+          currentIndex={currentIndex}
+          setCurrentIndex={setCurrentIndex}
+          questionIds={paced?.batch.questionIds}
+          participantName={pair ? getActiveName(pair) : undefined}
+          journal={journal}
+          onComplete={() => setAppState(paced ? AppState.PACED : AppState.REVIEW)} 
+        />
+      )}
+
+      {appState === AppState.REVIEW && (
+        <ReviewScreen
+          locale={locale}
+          pack={pack}
+          answers={answers}
+          flagged={flagged}
+          answerMeta={answerMeta}
+          onEdit={editFromReview}
+          onBack={() => setAppState(AppState.QUESTIONS)}
+          onConfirm={pair ? finishPairTurn : finishReview}
+          onExport={pair ? undefined : exportSession}
+          onExportCsv={pair ? undefined : exportCsv}
+        />
+      )}
+
+      {appState === AppState.IMPORT_REVIEW && importedAnswers && (
+        <ImportReview
+          locale={locale}
+          pack={pack}
+          extracted={importedAnswers}
+          conflicts={importConflicts}
+          onCancel={() => {
+            setImportedAnswers(null);
+            setImportConflicts([]);
+            setImportedYears(null);
+            setAppState(AppState.WELCOME);
+          }}
+          onContinue={finishImport}
+        />
+      )}
+
+      {appState === AppState.PAIR_HANDOFF && pair && (
+        <div className="min-h-screen flex flex-col items-center justify-center bg-[#fdfbf7] px-6 space-y-8 fade-in">
+          <div className="mx-auto w-16 h-16 bg-stone-900 rounded-full flex items-center justify-center shadow-2xl ring-4 ring-stone-100">
+            <Users className="w-8 h-8 text-orange-50" />
+          </div>
+          <div className="text-center space-y-3 max-w-sm">
+            <h3 className="text-3xl font-serif font-bold text-stone-900 tracking-wide">{t.pairHandoffTitle(getActiveName(pair))}</h3>
+            <p className="font-serif text-stone-500 leading-relaxed">{t.pairHandoffNote(pair.profiles[0]?.name || pair.names[0])}</p>
+          </div>
+          <button
+            onClick={() => setAppState(AppState.QUESTIONS)}
+            className="group inline-flex items-center justify-center px-10 py-4 text-lg font-serif text-white transition-all duration-300 bg-stone-900 rounded-sm hover:bg-stone-800 hover:shadow-2xl hover:-translate-y-1"
+          >
+            <span>{t.pairHandoffStart}</span>
+            <ArrowRight className="ml-3 w-5 h-5 group-hover:translate-x-1 transition-transform" />
+          </button>
+        </div>
+      )}
+
+      {appState === AppState.TEAM && team && (
+        <TeamView
+          locale={locale}
+          year={year}
+          pack={pack}
+          team={team}
+          onGenerate={generateTeamBoard}
+          onClose={summary ? () => setAppState(AppState.SUMMARY) : closeTeam}
         />
       )}
 
@@ -104,14 +813,76 @@ const App: React.FC = () => {
             <Loader2 className="w-12 h-12 text-stone-800 animate-spin relative z-10" />
           </div>
           <div className="text-center space-y-3 z-10">
-            <h3 className="text-2xl font-serif font-bold text-stone-900">正在冲洗你的年度胶卷...</h3>
+            <h3 className="text-2xl font-serif font-bold text-stone-900">{t.analyzing}</h3>
             <p className="font-typewriter text-stone-500 text-xs tracking-widest uppercase">Developing Memories...</p>
           </div>
         </div>
       )}
 
-      {appState === AppState.SUMMARY && summary && (
-        <SummaryBoard summary={summary} allAnswers={answers} onRetake={retake} />
+      {appState === AppState.SUMMARY && summary && team && (
+        <SummaryBoard
+          locale={locale}
+          year={year}
+          pack={pack}
+          summary={summary}
+          initialItems={boardItems}
+          onItemsChange={setBoardItems}
+          onOpenAnswers={() => setAppState(AppState.TEAM)}
+          onRetake={closeTeam}
+        />
+      )}
+
+      {appState === AppState.SUMMARY && summary && !team && (
+        <SummaryBoard 
+          locale={locale}
+          year={year}
+          pack={pack} 
+          summary={summary} 
+          allAnswers={pairBoard ? pairBoard.answers : answers} 
+          answerMeta={answerMeta}
+          attachments={pair ? mergeProfileAttachments(pair.profiles) : attachments}
+          writingStats={pairBoard ? pairBoard.writingStats : writingStats}
+          pair={pair}
+          initialItems={boardItems}
+          onItemsChange={setBoardItems}
+          onExport={exportSession}
+          onExportCsv={pair ? undefined : exportCsv}
+          onCompare={previousEntry && !pair ? () => setShowComparison(true) : undefined}
+          onContinueEditing={viewingArchive ? continueArchived : undefined}
+          onRetake={retake} 
+        />
+      )}
+
+      {showComparison && previousEntry && (
+        <ComparisonView
+          locale={locale}
+          pack={pack}
+          year={year}
+          previousYear={previousEntry.year}
+          comparisons={getComparisons(previousEntry)}
+          onClose={() => setShowComparison(false)}
+        />
+      )}
+
+      {showPackEditor && (
+        <PackEditor
+          locale={locale}
+          pack={pack}
+          onSave={savePackEdits}
+          onClose={() => setShowPackEditor(false)}
+        />
+      )}
+
+      {showArchive && (
+        <ArchiveView
+          locale={locale}
+          entries={archiveEntries}
+          packs={packs}
+          onOpen={entry => restoreSession(entry, true)}
+          onDelete={deleteArchiveEntry}
+          onExportCsv={exportArchiveCsv}
+          onClose={() => setShowArchive(false)}
+        />
       )}
     </div>
   );
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { X, Plus } from 'lucide-react';
+import { AnswerValue, Locale, Question, ScaleSpec } from '../types';
+import { getAnswerType } from '../services/answerValueService';
+import { UiStrings, getStrings } from '../i18n';
+
+interface Props {
+  locale: Locale;
+  handFont: string; // handwriting class for the pack's language
+  question: Question;
+  value: AnswerValue | undefined;
+  onChange: (value: AnswerValue | undefined) => void;
+}
+
+// --- Shared controls ---
+
+const ChoiceButtons = ({ options, selected, onSelect, handFont }: { options: string[]; selected?: string; onSelect: (option: string | undefined) => void; handFont: string }) => (
+  <div className="flex flex-wrap gap-3">
+    {options.map(option => (
+      <button
+        key={option}
+        onClick={() => onSelect(selected === option ? undefined : option)}
+        className={`px-5 py-2 ${handFont} text-2xl border-2 rounded-sm transition-all ${selected === option ? 'bg-stone-900 text-[#f4f0e6] border-stone-900 -rotate-1 shadow-md' : 'text-stone-600 border-stone-300 hover:border-stone-600'}`}
+      >
+        {option}
+      </button>
+    ))}
+  </div>
+);
+
+const ScaleButtons = ({ scale, selected, onSelect }: { scale: ScaleSpec; selected?: number; onSelect: (value: number | undefined) => void }) => {
+  const steps = Array.from({ length: Math.floor(scale.max - scale.min) + 1 }, (_, i) => scale.min + i);
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {steps.map(step => (
+          <button
+            key={step}
+            onClick={() => onSelect(selected === step ? undefined : step)}
+            className={`w-12 h-12 rounded-full font-hand text-2xl border-2 transition-all ${selected === step ? 'bg-stone-900 text-[#f4f0e6] border-stone-900 scale-110' : 'text-stone-500 border-stone-300 hover:border-stone-600'}`}
+          >
+            {step}
+          </button>
+        ))}
+      </div>
+      {(scale.minLabel || scale.maxLabel) && (
+        <div className="flex justify-between font-serif text-xs text-stone-400" style={{ width: `${steps.length * 3.5}rem` }}>
+          <span>{scale.minLabel}</span>
+          <span>{scale.maxLabel}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ShortInput = ({ value, onChange, placeholder, handFont }: { value: string; onChange: (value: string) => void; placeholder: string; handFont: string }) => (
+  <input
+    type="text"
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    placeholder={placeholder}
+    spellCheck={false}
+    className={`w-full bg-transparent border-0 border-b-2 border-stone-300 focus:border-stone-700 outline-none py-2 ${handFont} text-2xl text-stone-800 placeholder:text-stone-300/50 transition-colors`}
+  />
+);
+
+const ListInput = ({ items, onChange, t, handFont }: { items: string[]; onChange: (items: string[]) => void; t: UiStrings; handFont: string }) => {
+  const [draft, setDraft] = useState('');
+
+  const addItems = (text: string) => {
+    const newItems = text.split(/[,，、;；\n]+/).map(item => item.trim()).filter(item => item && !items.includes(item));
+    if (newItems.length > 0) onChange([...items, ...newItems]);
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',' || e.key === '，' || e.key === '、') {
+      e.preventDefault();
+      addItems(draft);
+    } else if (e.key === 'Backspace' && !draft && items.length > 0) {
+      onChange(items.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3">
+        {items.map((item, index) => (
+          <span
+            key={item}
+            className={`inline-flex items-center gap-2 pl-4 pr-2 py-1 bg-[#fef9c3] shadow-sm ${handFont} text-xl text-stone-800 ${index % 2 === 0 ? '-rotate-1' : 'rotate-1'}`}
+          >
+            {item}
+            <button onClick={() => onChange(items.filter(i => i !== item))} className="text-stone-400 hover:text-red-600" title={t.removeItem}>
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => draft.trim() && addItems(draft)}
+          placeholder={t.addItemPlaceholder}
+          spellCheck={false}
+          className={`flex-1 bg-transparent border-0 border-b-2 border-stone-300 focus:border-stone-700 outline-none py-2 ${handFont} text-2xl text-stone-800 placeholder:text-stone-300/50 transition-colors`}
+        />
+        <button onClick={() => addItems(draft)} className="p-2 text-stone-400 hover:text-stone-800" title={t.addItem}>
+          <Plus className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Inputs for typed questions; free-text questions keep QuestionFlow's notebook textarea.
+export const AnswerInput: React.FC<Props> = ({ locale, handFont, question, value, onChange }) => {
+  const t = getStrings(locale);
+  switch (getAnswerType(question)) {
+    case 'short':
+      return <ShortInput value={typeof value === 'string' ? value : ''} onChange={onChange} placeholder={t.writeHere} handFont={handFont} />;
+
+    case 'list':
+      return <ListInput items={Array.isArray(value) ? value : []} onChange={items => onChange(items.length > 0 ? items : undefined)} t={t} handFont={handFont} />;
+
+    case 'choice':
+      return <ChoiceButtons options={question.options || []} selected={typeof value === 'string' ? value : undefined} onSelect={onChange} handFont={handFont} />;
+
+    case 'scale':
+      return question.scale
+        ? <ScaleButtons scale={question.scale} selected={typeof value === 'number' ? value : undefined} onSelect={onChange} />
+        : null;
+
+    case 'fields': {
+      const record = value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+      const setField = (fieldId: string, fieldValue: string | number | undefined) => {
+        const next = { ...record };
+        if (fieldValue === undefined || fieldValue === '') delete next[fieldId];
+        else next[fieldId] = fieldValue;
+        onChange(Object.keys(next).length > 0 ? next : undefined);
+      };
+      return (
+        <div className="space-y-8">
+          {(question.fields || []).map(field => {
+            const fieldValue = record[field.id];
+            return (
+              <div key={field.id} className="space-y-3">
+                <div className="font-hand text-2xl text-stone-500">{field.label}</div>
+                {field.type === 'choice' && (
+                  <ChoiceButtons options={field.options || []} selected={typeof fieldValue === 'string' ? fieldValue : undefined} onSelect={v => setField(field.id, v)} handFont={handFont} />
+                )}
+                {field.type === 'scale' && field.scale && (
+                  <ScaleButtons scale={field.scale} selected={typeof fieldValue === 'number' ? fieldValue : undefined} onSelect={v => setField(field.id, v)} />
+                )}
+                {field.type === 'short' && (
+                  <ShortInput value={typeof fieldValue === 'string' ? fieldValue : ''} onChange={v => setField(field.id, v)} placeholder={t.writeHere} handFont={handFont} />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      );
+    }
+
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,113 @@
+import React from 'react';
+import { X, BookOpen, FileSpreadsheet, Trash2 } from 'lucide-react';
+import { ArchiveEntry, Locale, QuestionPack } from '../types';
+import { countAnswered } from '../services/draftService';
+import { getMainQuestions } from '../services/followUpService';
+import { getStrings } from '../i18n';
+
+interface Props {
+  locale: Locale;
+  entries: ArchiveEntry[];
+  packs: QuestionPack[];
+  onOpen: (entry: ArchiveEntry) => void;
+  onDelete: (key: string) => void;
+  onExportCsv?: (packId: string) => void; // every year of the pack in one spreadsheet
+  onClose: () => void;
+}
+
+export const ArchiveView: React.FC<Props> = ({ locale, entries, packs, onOpen, onDelete, onExportCsv, onClose }) => {
+  const t = getStrings(locale);
+  const years = [...new Set(entries.map(e => e.year))];
+
+  const handleDelete = (entry: ArchiveEntry, packTitle: string) => {
+    if (confirm(t.confirmDeleteArchive(entry.year, packTitle))) {
+      onDelete(entry.key);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[10000] bg-stone-900/95 backdrop-blur-md flex flex-col items-center p-4 md:p-8 fade-in overflow-y-auto custom-scrollbar">
+
+      {/* Controls */}
+      <div className="absolute top-6 right-6 z-50">
+        <button
+          onClick={onClose}
+          className="text-stone-400 hover:text-white transition-colors p-2 flex flex-col items-center gap-1 group"
+        >
+          <X size={32} />
+          <span className="text-[10px] opacity-0 group-hover:opacity-100 transition-opacity">{t.close}</span>
+        </button>
+      </div>
+
+      <div className="w-full max-w-3xl pt-12 pb-16 space-y-12">
+        <div className="text-center space-y-2">
+          <h2 className="text-4xl font-retro text-[#f4f0e6] tracking-widest">{t.archiveTitle}</h2>
+          <p className="font-typewriter text-xs text-stone-500 tracking-[0.3em] uppercase">The Archive</p>
+        </div>
+
+        {entries.length === 0 && (
+          <p className="text-center font-serif text-stone-400">{t.archiveEmpty}</p>
+        )}
+
+        {years.map(year => (
+          <div key={year} className="space-y-4">
+            <div className="flex items-center gap-4">
+              <span className="font-retro text-5xl text-orange-100/80">{year}</span>
+              <div className="flex-1 h-[1px] bg-stone-700"></div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {entries.filter(e => e.year === year).map(entry => {
+                const pack = packs.find(p => p.id === entry.packId) || entry.pack;
+                const packTitle = pack?.title || entry.packId;
+                const updated = new Date(entry.updatedAt);
+                return (
+                  <div key={entry.key} className="bg-[#f9f9f9] p-6 shadow-xl relative flex flex-col gap-3 -rotate-[0.5deg] hover:rotate-0 transition-transform">
+                    <div className="flex justify-between items-center opacity-60">
+                      <span className="font-typewriter text-[9px] tracking-[0.2em] uppercase">{entry.summary?.keyword || 'Draft'}</span>
+                      <span className="font-typewriter text-[9px] tracking-widest">
+                        {updated.getFullYear()}.{String(updated.getMonth() + 1).padStart(2, '0')}.{String(updated.getDate()).padStart(2, '0')}
+                      </span>
+                    </div>
+                    <h3 className="font-serif text-2xl text-stone-900 font-bold border-b-2 border-stone-900 pb-2">{packTitle}</h3>
+                    <p className="font-serif text-sm text-stone-600">
+                      {t.answeredOf(countAnswered(entry, pack?.questions), pack ? getMainQuestions(pack.questions).length : undefined)}
+                      {entry.summary?.cards[0] && <span className="text-stone-400"> · {entry.summary.cards.map(c => c.title).join(' · ')}</span>}
+                    </p>
+                    <div className="flex justify-between items-center pt-2">
+                      <button
+                        onClick={() => onOpen(entry)}
+                        className="inline-flex items-center gap-2 px-4 py-2 bg-stone-900 text-[#f4f0e6] font-serif text-sm rounded-sm hover:bg-stone-800 transition-colors"
+                      >
+                        <BookOpen className="w-4 h-4" />
+                        <span>{t.open}</span>
+                      </button>
+                      <span className="flex items-center">
+                        {onExportCsv && pack && (
+                          <button
+                            onClick={() => onExportCsv(entry.packId)}
+                            className="p-2 text-stone-300 hover:text-stone-700 transition-colors"
+                            title={t.exportArchiveCsv}
+                          >
+                            <FileSpreadsheet className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDelete(entry, packTitle)}
+                          className="p-2 text-stone-300 hover:text-red-600 transition-colors"
+                          title={t.remove}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
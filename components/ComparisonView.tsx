@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { X, Sparkles, ArrowRight } from 'lucide-react';
+import { AnswerComparison, ComparisonStatus, Locale, QuestionPack } from '../types';
+import { generateYearComparison } from '../services/openaiService';
+import { getHandFont, resolveLocale } from '../services/localeService';
+import { getStrings } from '../i18n';
+
+interface Props {
+  locale: Locale;
+  pack: QuestionPack;
+  year: number;
+  previousYear: number;
+  comparisons: AnswerComparison[];
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ComparisonStatus, string> = {
+  unchanged: 'text-stone-400 border-stone-200',
+  changed: 'text-amber-700 border-amber-300 bg-amber-50',
+  new: 'text-emerald-700 border-emerald-300 bg-emerald-50',
+  dropped: 'text-stone-500 border-stone-300 bg-stone-100',
+  unanswered: 'text-stone-300 border-stone-100',
+};
+
+export const ComparisonView: React.FC<Props> = ({ locale, pack, year, previousYear, comparisons, onClose }) => {
+  const t = getStrings(locale);
+  const contentLocale = resolveLocale(pack.locale);
+  const handFont = getHandFont(contentLocale);
+  const [onlyChanges, setOnlyChanges] = useState(true);
+  const [narrative, setNarrative] = useState<string | null>(null);
+  const [isWriting, setIsWriting] = useState(false);
+
+  const changedCount = comparisons.filter(c => c.status === 'changed' || c.status === 'new' || c.status === 'dropped').length;
+
+  const handleWrite = async () => {
+    if (isWriting) return;
+    setIsWriting(true);
+    const text = await generateYearComparison(comparisons, year, previousYear, contentLocale);
+    setNarrative(text);
+    setIsWriting(false);
+  };
+
+  const isVisible = (c: AnswerComparison) =>
+    onlyChanges ? c.status !== 'unchanged' && c.status !== 'unanswered' : c.status !== 'unanswered';
+
+  return (
+    <div className="fixed inset-0 z-[10000] bg-stone-900/95 backdrop-blur-md flex flex-col items-center p-4 md:p-8 fade-in overflow-y-auto custom-scrollbar">
+
+      {/* Controls */}
+      <div className="absolute top-6 right-6 z-50">
+        <button
+          onClick={onClose}
+          className="text-stone-400 hover:text-white transition-colors p-2 flex flex-col items-center gap-1 group"
+        >
+          <X size={32} />
+          <span className="text-[10px] opacity-0 group-hover:opacity-100 transition-opacity">{t.close}</span>
+        </button>
+      </div>
+
+      <div className="w-full max-w-[1100px] bg-[#fafafa] shadow-[0_30px_60px_rgba(0,0,0,0.5)] rounded-r-md mt-8 mb-16 px-6 md:px-12 py-10 relative">
+        {/* Cover Edge (Left) */}
+        <div className="absolute left-0 top-0 bottom-0 w-3 bg-stone-300 shadow-xl"></div>
+
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 border-b-2 border-stone-800 pb-4">
+          <div>
+            <div className="font-typewriter text-xs text-stone-500 tracking-widest uppercase">Year over Year</div>
+            <h2 className="text-3xl font-retro text-stone-900 tracking-widest flex items-center gap-3 mt-1">
+              {previousYear} <ArrowRight className="w-6 h-6 text-stone-400" /> {year}
+            </h2>
+          </div>
+          <div className="flex items-center gap-4 font-serif text-sm text-stone-600">
+            <span>{t.differences(changedCount)}</span>
+            <label className="inline-flex items-center gap-2 cursor-pointer select-none">
+              <input type="checkbox" checked={onlyChanges} onChange={(e) => setOnlyChanges(e.target.checked)} />
+              {t.onlyChanges}
+            </label>
+          </div>
+        </div>
+
+        {/* What Changed */}
+        <div className="mt-6 mb-10">
+          {narrative ? (
+            <div className="font-hand text-2xl text-stone-700 p-6 -rotate-[0.5deg] relative fade-in">
+              <div className="absolute inset-0 bg-yellow-50 rotate-[0.5deg] shadow-sm border border-stone-100 -z-10"></div>
+              <p className="font-serif text-base leading-8">{narrative}</p>
+            </div>
+          ) : (
+            <button
+              onClick={handleWrite}
+              disabled={isWriting}
+              className="inline-flex items-center gap-2 font-serif text-stone-500 hover:text-amber-700 transition-colors disabled:opacity-60"
+            >
+              <Sparkles className={`w-4 h-4 ${isWriting ? 'animate-spin' : ''}`} />
+              <span>{isWriting ? t.writingComparison : t.writeComparison}</span>
+            </button>
+          )}
+        </div>
+
+        {/* Parts */}
+        {pack.parts.map(part => {
+          const rows = comparisons.filter(c => c.question.part === part.id && isVisible(c));
+          if (rows.length === 0) return null;
+          return (
+            <div key={part.id} className="mb-12">
+              <div className="flex items-baseline gap-4 mb-4">
+                <h3 className="text-xl font-serif font-bold text-stone-900 tracking-wide">PART {part.id}</h3>
+                <span className="font-hand text-lg text-stone-500">{part.title}</span>
+              </div>
+
+              <div className="hidden md:grid grid-cols-2 gap-8 font-typewriter text-[10px] text-stone-400 tracking-widest uppercase mb-2">
+                <span>{previousYear}</span>
+                <span>{year}</span>
+              </div>
+
+              {rows.map(c => (
+                <div key={c.question.id} className="py-4 border-t border-stone-200">
+                  <div className="flex items-start justify-between gap-4 mb-3">
+                    <span className="font-bold text-stone-800 font-serif text-sm tracking-wide">
+                      {c.question.id}. {c.question.text}
+                    </span>
+                    <span className={`flex-shrink-0 font-serif text-xs px-2 py-0.5 border rounded-full ${STATUS_STYLES[c.status]}`}>
+                      {t.comparisonStatus[c.status]}
+                    </span>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2 md:gap-8">
+                    <p className={`${handFont} text-lg text-stone-400 break-words whitespace-pre-wrap`}>
+                      {c.previous || '...'}
+                    </p>
+                    <p className={`${handFont} text-xl text-blue-900 break-words whitespace-pre-wrap`}>
+                      {c.current || <span className="text-stone-300">...</span>}
+                    </p>
+                  </div>
+
+                  {(c.added.length > 0 || c.removed.length > 0 || c.flips.length > 0) && (
+                    <div className="flex flex-wrap gap-2 mt-3 font-serif text-xs">
+                      {c.flips.map(f => (
+                        <span key={`${f.from}-${f.to}`} className="px-2 py-0.5 bg-stone-900 text-[#f4f0e6] rounded-sm">
+                          {f.from} → {f.to}
+                        </span>
+                      ))}
+                      {c.added.map(item => (
+                        <span key={`+${item}`} className="px-2 py-0.5 bg-amber-100 text-amber-900 rounded-sm">+ {item}</span>
+                      ))}
+                      {c.removed.map(item => (
+                        <span key={`-${item}`} className="px-2 py-0.5 text-stone-400 line-through">{item}</span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+
+        {comparisons.every(c => !isVisible(c)) && (
+          <p className="text-center font-serif text-stone-400 py-12">{t.identicalYears}</p>
+        )}
+      </div>
+    </div>
+  );
+};
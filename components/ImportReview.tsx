@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { ArrowRight, ChevronLeft, Eraser, Sparkles } from 'lucide-react';
+import { Answers, ExtractedAnswers, ImportConflict, Locale, Question, QuestionPack } from '../types';
+import { getMainQuestions } from '../services/followUpService';
+import { getHandFont, resolveLocale } from '../services/localeService';
+import { joinCandidates } from '../services/importMergeService';
+import { getStrings } from '../i18n';
+
+export type ImportNextStep = 'questions' | 'generate';
+
+type ConflictChoice = number | 'both' | 'none'; // a candidate's index, or both/neither
+
+interface Props {
+  locale: Locale;
+  pack: QuestionPack;
+  extracted: ExtractedAnswers;
+  conflicts?: ImportConflict[]; // multi-file imports: questions the files disagree on
+  onCancel: () => void;
+  // edited lists the questions whose text differs from what was read from the file
+  onContinue: (answers: Answers, edited: number[], next: ImportNextStep) => void;
+}
+
+const METHOD_STYLES = {
+  regex: 'border-emerald-300 text-emerald-800',
+  llm: 'border-amber-300 text-amber-800',
+  csv: 'border-sky-300 text-sky-800',
+  fallback: 'border-red-300 text-red-700',
+};
+
+export const ImportReview: React.FC<Props> = ({ locale, pack, extracted, conflicts = [], onCancel, onContinue }) => {
+  const t = getStrings(locale);
+  const handFont = getHandFont(resolveLocale(pack.locale));
+  const mainQuestions = getMainQuestions(pack.questions);
+  const [rows, setRows] = useState<ExtractedAnswers>(extracted);
+  const [texts, setTexts] = useState<Answers>(() => {
+    const initial: Answers = {};
+    Object.keys(extracted).map(Number).forEach(id => {
+      initial[id] = extracted[id].answer;
+    });
+    return initial;
+  });
+
+  const [choices, setChoices] = useState<Record<number, ConflictChoice>>({});
+  const pendingConflicts = conflicts.filter(conflict => choices[conflict.questionId] === undefined).length;
+
+  // Counted over main questions like everywhere else, so follow-ups don't inflate "x / 40"
+  const foundCount = mainQuestions.filter(q => texts[q.id]?.trim()).length;
+  const hasAnswers = pack.questions.some(q => texts[q.id]?.trim());
+  const label = (question: Question) =>
+    question.followUp ? `↳ ${question.text}` : `${mainQuestions.indexOf(question) + 1}. ${question.text}`;
+
+  // Moving onto a question that already has an answer swaps the two
+  const moveAnswer = (fromId: number, toId: number) => {
+    if (fromId === toId) return;
+    const swap = <T,>(map: { [key: number]: T }) => {
+      const next = { ...map };
+      const from = map[fromId];
+      const to = map[toId];
+      delete next[fromId];
+      delete next[toId];
+      if (from !== undefined) next[toId] = from;
+      if (to !== undefined) next[fromId] = to;
+      return next;
+    };
+    setRows(swap);
+    setTexts(swap);
+  };
+
+  const clearAnswer = (id: number) => {
+    setRows(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    setTexts(prev => ({ ...prev, [id]: '' }));
+  };
+
+  const chooseConflict = (conflict: ImportConflict, choice: ConflictChoice) => {
+    const id = conflict.questionId;
+    setChoices(prev => ({ ...prev, [id]: choice }));
+    if (choice === 'none') {
+      clearAnswer(id);
+      return;
+    }
+    const item = choice === 'both'
+      ? { ...conflict.candidates[0], answer: joinCandidates(conflict.candidates), confidence: undefined, source: undefined, fileName: undefined }
+      : conflict.candidates[choice];
+    setRows(prev => ({ ...prev, [id]: item }));
+    setTexts(prev => ({ ...prev, [id]: item.answer }));
+  };
+
+  const finish = (next: ImportNextStep) => {
+    const answers: Answers = {};
+    Object.keys(texts).map(Number).forEach(id => {
+      if (texts[id].trim()) answers[id] = texts[id].trim();
+    });
+    const edited = Object.keys(answers)
+      .map(Number)
+      .filter(id => answers[id] !== rows[id]?.answer.trim());
+    onContinue(answers, edited, next);
+  };
+
+  const renderRow = (question: Question) => {
+    const item = rows[question.id];
+    const text = texts[question.id] || '';
+    return (
+      <div key={question.id} className={`py-4 border-t border-stone-200 space-y-2 ${question.followUp ? 'pl-6' : ''}`}>
+        <div className="flex items-start justify-between gap-4">
+          <span className="font-serif text-sm text-stone-800 tracking-wide">{label(question)}</span>
+          {item && (
+            <span className="flex items-center gap-2 flex-shrink-0">
+              {item.confidence !== undefined && (
+                <span className="font-typewriter text-[10px] text-stone-400">{t.importConfidence(Math.round(item.confidence * 100))}</span>
+              )}
+              <span className={`px-1.5 py-0.5 border rounded-sm font-typewriter text-[10px] tracking-wider ${METHOD_STYLES[item.method]}`}>
+                {t.importMethod[item.method]}
+              </span>
+            </span>
+          )}
+        </div>
+
+        <textarea
+          value={text}
+          onChange={(e) => setTexts(prev => ({ ...prev, [question.id]: e.target.value }))}
+          placeholder={item?.status && !item.answer ? `(${t.answerStatus[item.status]})` : t.importNoAnswer}
+          rows={text ? Math.min(6, text.split('\n').length + 1) : 1}
+          className={`w-full bg-transparent border-b border-stone-200 focus:border-stone-700 outline-none resize-none ${handFont} text-lg text-blue-900 placeholder:text-stone-300 placeholder:font-serif placeholder:text-sm`}
+        />
+
+        {(item?.source || item?.fileName) && (
+          <p className="font-typewriter text-[11px] text-stone-400 leading-relaxed whitespace-pre-line line-clamp-3">
+            <span className="uppercase tracking-widest mr-2">{item.fileName || t.importSource}</span>
+            {item.source}
+          </p>
+        )}
+
+        {text.trim() && (
+          <div className="flex items-center gap-4 font-serif text-xs text-stone-400">
+            <select
+              value=""
+              onChange={(e) => e.target.value && moveAnswer(question.id, Number(e.target.value))}
+              className="bg-transparent border-b border-stone-200 outline-none py-0.5 max-w-[16rem] hover:text-stone-700"
+            >
+              <option value="">{t.importMoveTo}</option>
+              {pack.questions.filter(q => q.id !== question.id).map(q => (
+                <option key={q.id} value={q.id}>{label(q)}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => clearAnswer(question.id)}
+              className="inline-flex items-center gap-1 hover:text-red-600 transition-colors"
+            >
+              <Eraser className="w-3 h-3" />
+              <span>{t.importClear}</span>
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderConflict = (conflict: ImportConflict) => {
+    const question = pack.questions.find(q => q.id === conflict.questionId);
+    if (!question) return null;
+    const choice = choices[conflict.questionId];
+    const chosen = (index: number) => choice === index || choice === 'both';
+    return (
+      <div key={conflict.questionId} className="py-4 border-t border-amber-200 space-y-3">
+        <div className="font-serif text-sm text-stone-800 tracking-wide">{label(question)}</div>
+        <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${Math.min(conflict.candidates.length, 3)}, minmax(0, 1fr))` }}>
+          {conflict.candidates.map((candidate, index) => (
+            <button
+              key={index}
+              onClick={() => chooseConflict(conflict, index)}
+              className={`text-left p-3 border rounded-sm transition-colors ${chosen(index) ? 'border-stone-800 bg-white shadow-md' : choice === undefined ? 'border-stone-200 hover:border-stone-500' : 'border-stone-200 opacity-50 hover:opacity-100'}`}
+            >
+              <div className="flex items-center justify-between gap-2 font-typewriter text-[10px] text-stone-400 tracking-wider">
+                <span className="truncate">{candidate.fileName}</span>
+                <span className="flex-shrink-0">{t.importMethod[candidate.method]}</span>
+              </div>
+              <div className={`${handFont} text-lg text-blue-900 leading-snug mt-2 whitespace-pre-line line-clamp-6`}>{candidate.answer}</div>
+              <div className="font-serif text-xs text-stone-500 mt-2">{t.importKeepThis}</div>
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-4 font-serif text-xs">
+          <button
+            onClick={() => chooseConflict(conflict, 'both')}
+            className={choice === 'both' ? 'text-stone-900 underline underline-offset-4' : 'text-stone-400 hover:text-stone-700'}
+          >
+            {t.importKeepBoth}
+          </button>
+          <button
+            onClick={() => chooseConflict(conflict, 'none')}
+            className={choice === 'none' ? 'text-red-700 underline underline-offset-4' : 'text-stone-400 hover:text-red-600'}
+          >
+            {t.importKeepNeither}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-[#fdfbf7] text-stone-800 px-6 py-12 fade-in">
+      <div className="w-full max-w-2xl space-y-8">
+        <div className="text-center space-y-3">
+          <div className="font-typewriter text-xs text-stone-400 tracking-[0.3em] uppercase">Imported</div>
+          <h2 className="text-3xl font-serif font-bold text-stone-900 tracking-widest">{t.importReviewTitle}</h2>
+          <p className="font-hand text-2xl text-stone-500">{t.importReviewCount(foundCount, mainQuestions.length)}</p>
+          <p className="font-serif text-sm text-stone-400">{t.importReviewNote}</p>
+        </div>
+
+        {conflicts.length > 0 && (
+          <div className="bg-amber-50/60 px-5 pt-4 pb-1 border border-amber-200 rounded-sm">
+            <h3 className="font-serif font-bold text-stone-900">{t.importConflictsHeading(conflicts.length)}</h3>
+            <p className="font-serif text-xs text-stone-500 mb-3">{t.importConflictsNote}</p>
+            {conflicts.map(renderConflict)}
+          </div>
+        )}
+
+        <div>{pack.questions.map(renderRow)}</div>
+
+        <div className="flex flex-wrap items-center justify-between gap-4 pt-4 pb-12">
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-2 px-3 py-2 text-stone-500 hover:text-stone-800 transition-colors"
+          >
+            <ChevronLeft className="w-5 h-5" />
+            <span className="font-serif text-lg">{t.importCancel}</span>
+          </button>
+          <div className="flex flex-wrap items-center justify-end gap-3">
+            {pendingConflicts > 0 && (
+              <span className="font-serif text-xs text-amber-700">{t.importConflictsPending(pendingConflicts)}</span>
+            )}
+            <button
+              onClick={() => finish('questions')}
+              disabled={pendingConflicts > 0}
+              className="px-5 py-3 border border-stone-300 text-stone-700 font-serif rounded-sm hover:border-stone-700 disabled:opacity-40 transition-colors"
+            >
+              {t.importContinue}
+            </button>
+            <button
+              onClick={() => finish('generate')}
+              disabled={!hasAnswers || pendingConflicts > 0}
+              className="group flex items-center gap-3 px-6 py-3 bg-stone-900 text-[#f4f0e6] font-serif rounded-sm hover:bg-stone-800 disabled:opacity-40 transition-all shadow-lg"
+            >
+              <Sparkles className="w-4 h-4" />
+              <span>{t.importGenerate}</span>
+              <ArrowRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { BookHeart, Check, Loader2, Sparkles, X } from 'lucide-react';
+import { JournalExcerpt, Locale, Question } from '../types';
+import { draftAnswerFromJournal } from '../services/openaiService';
+import { getStrings } from '../i18n';
+
+interface Props {
+  locale: Locale;
+  contentLocale: Locale;
+  handFont: string;
+  question: Question;
+  excerpts: JournalExcerpt[];
+  // Adds text to the answer; drafted marks it as written with the model. Unset for typed
+  // questions, where the excerpts are only there to read and no draft is offered.
+  onUse?: (text: string, drafted: boolean) => void;
+  onDraft: () => void; // a model draft was asked for
+}
+
+// Journal passages that may answer the current question, beside the notebook. Keyed by question,
+// so dismissed passages and drafts don't carry over to the next one.
+export const JournalPanel: React.FC<Props> = ({ locale, contentLocale, handFont, question, excerpts, onUse, onDraft }) => {
+  const t = getStrings(locale);
+  const [dismissed, setDismissed] = useState<number[]>([]);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [draftFailed, setDraftFailed] = useState(false);
+
+  const visible = excerpts.filter((_, index) => !dismissed.includes(index));
+
+  const requestDraft = async () => {
+    if (!onUse || isDrafting || visible.length === 0) return;
+    setIsDrafting(true);
+    setDraftFailed(false);
+    onDraft();
+    try {
+      setDraft(await draftAnswerFromJournal(question, visible, contentLocale));
+    } catch (error) {
+      console.error("Journal draft failed", error);
+      setDraftFailed(true);
+    }
+    setIsDrafting(false);
+  };
+
+  return (
+    <aside className="mt-6 xl:mt-0 xl:absolute xl:left-full xl:top-0 xl:ml-12 xl:w-60 space-y-3 fade-in">
+      <div className="flex items-center gap-2 font-typewriter text-[10px] text-stone-400 tracking-[0.2em] uppercase">
+        <BookHeart className="w-3 h-3" />
+        <span>{t.journalHeading}</span>
+      </div>
+
+      {excerpts.map((excerpt, index) => !dismissed.includes(index) && (
+        <div key={`${excerpt.date}-${index}`} className="bg-white/70 border border-stone-200 p-3 shadow-sm space-y-2">
+          <div className="font-typewriter text-[10px] text-stone-400 tracking-wider">
+            {excerpt.date}{excerpt.place ? ` · ${excerpt.place}` : ''}
+          </div>
+          <p className="font-serif text-sm text-stone-600 leading-relaxed whitespace-pre-line">{excerpt.text}</p>
+          <div className="flex items-center gap-4 font-serif text-xs text-stone-400">
+            {onUse && (
+              <button onClick={() => onUse(excerpt.text, false)} className="hover:text-stone-800 transition-colors">
+                {t.journalUse}
+              </button>
+            )}
+            <button onClick={() => setDismissed(prev => [...prev, index])} className="hover:text-red-600 transition-colors">
+              {t.journalDismiss}
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {/* A draft is only worth a model call where it can be put into the answer */}
+      {onUse && visible.length > 0 && !draft && (
+        <button
+          onClick={requestDraft}
+          disabled={isDrafting}
+          className="inline-flex items-center gap-2 font-serif text-sm text-stone-500 hover:text-amber-700 disabled:opacity-50 transition-colors"
+        >
+          {isDrafting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+          <span>{isDrafting ? t.journalDrafting : t.journalDraft}</span>
+        </button>
+      )}
+      {draftFailed && <p className="font-serif text-xs text-red-600">{t.journalDraftFailed}</p>}
+
+      {draft && (
+        <div className="relative p-4 -rotate-1 fade-in">
+          <div className="absolute inset-0 bg-yellow-50 rotate-1 shadow-sm border border-stone-100 -z-10"></div>
+          <p className={`${handFont} text-xl text-stone-700 leading-snug`}>{draft}</p>
+          <div className="flex items-center gap-4 mt-3 font-serif text-xs text-stone-500">
+            {onUse && (
+              <button
+                onClick={() => {
+                  onUse(draft, true);
+                  setDraft(null);
+                }}
+                className="inline-flex items-center gap-1 hover:text-stone-900 transition-colors"
+              >
+                <Check className="w-3 h-3" />
+                <span>{t.journalAccept}</span>
+              </button>
+            )}
+            <button onClick={() => setDraft(null)} className="inline-flex items-center gap-1 hover:text-red-600 transition-colors">
+              <X className="w-3 h-3" />
+              <span>{t.journalReject}</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </aside>
+  );
+};
@@ -1,22 +1,51 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { X, ArrowLeft, ArrowRight, Download } from 'lucide-react';
-import { QUESTIONS } from '../constants';
-import { Answers, YearSummary } from '../types';
+import { AnswerAttachments, AnswerMetaMap, Answers, Locale, PairSession, Question, QuestionPack, YearSummary } from '../types';
+import { getPartTitle } from '../services/questionPackService';
+import { getCombinedFlow, getMainQuestions, getQuestionFlow } from '../services/followUpService';
+import { getAnswerStatus } from '../services/answerStatusService';
+import { getHandFont, resolveLocale } from '../services/localeService';
+import { getStrings } from '../i18n';
 import html2canvas from 'html2canvas';
 
 interface Props {
+  locale: Locale;
+  year: number;
+  pack: QuestionPack;
   answers: Answers;
+  answerMeta?: AnswerMetaMap;
+  attachments?: AnswerAttachments;
+  pair?: PairSession | null; // both people's answers, one under the other, instead of answers
   summary: YearSummary;
   onClose: () => void;
 }
 
-export const NotebookView: React.FC<Props> = ({ answers, summary, onClose }) => {
-  const [currentSpread, setCurrentSpread] = useState(0); // 0 = Part 1 & 2, 1 = Part 3 & 4
+export const NotebookView: React.FC<Props> = ({ locale, year, pack, answers, answerMeta = {}, attachments = {}, pair, summary, onClose }) => {
+  const t = getStrings(locale);
+  const isEnglish = resolveLocale(pack.locale) === 'en';
+  const [currentSpread, setCurrentSpread] = useState(0); // 0 = Part 1 & 2, 1 = Part 3 & 4, ...
   const [isDownloading, setIsDownloading] = useState(false);
   
   const bookRef = useRef<HTMLDivElement>(null);
   
-  const totalSpreads = 2;
+  // Two parts per spread; an odd last part leaves the right page blank
+  const mainQuestions = getMainQuestions(pack.questions);
+  const partIds = pack.parts.map(p => p.id);
+  const totalSpreads = Math.max(1, Math.ceil(partIds.length / 2));
+  const leftPart = partIds[currentSpread * 2];
+  const rightPart = partIds[currentSpread * 2 + 1];
+
+  // Everyone whose answers are on the page: the one reviewer, or both people of a pair in their own ink
+  const writers = pair && pair.profiles.length > 0
+    ? pair.profiles.map((profile, index) => ({
+        name: profile.name,
+        answers: profile.answers,
+        answerMeta: profile.answerMeta || {},
+        attachments: profile.attachments || {},
+        ink: index === 0 ? 'text-blue-900' : 'text-rose-900',
+      }))
+    : [{ name: '', answers, answerMeta, attachments, ink: 'text-blue-900' }];
+  const hasAnswer = (q: Question) => writers.some(w => w.answers[q.id]?.trim() || w.attachments[q.id]);
 
   const handleNext = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -64,13 +93,13 @@ export const NotebookView: React.FC<Props> = ({ answers, summary, onClose }) =>
         });
         
         const link = document.createElement('a');
-        link.download = `2025-Review-Part${currentSpread === 0 ? '1-2' : '3-4'}.png`;
+        link.download = `${year}-Review-Part${rightPart !== undefined ? `${leftPart}-${rightPart}` : leftPart}.png`;
         link.href = canvas.toDataURL('image/png');
         link.click();
 
       } catch (error) {
         console.error("Screenshot failed:", error);
-        alert("保存图片失败，请重试");
+        alert(t.saveImageFailed);
       } finally {
         // 3. Restore state
         bookRef.current.style.height = originalHeight;
@@ -89,8 +118,10 @@ export const NotebookView: React.FC<Props> = ({ answers, summary, onClose }) =>
 
   // Helper to render a single page content
   const NotebookPage = ({ part }: { part: number }) => {
-    const partQuestions = QUESTIONS.filter(q => q.part === part);
-    const title = ["", "探索 · 启程", "得失 · 感悟", "生活 · 喜好", "自我 · 未来"][part];
+    // Follow-ups only appear when they were asked and answered
+    const flow = pair && pair.profiles.length > 0 ? getCombinedFlow(pack.questions, pair.profiles.map(p => p.answers)) : getQuestionFlow(pack.questions, answers);
+    const partQuestions = flow.filter(q => q.part === part && (!q.followUp || hasAnswer(q)));
+    const title = getPartTitle(pack, part);
     
     const today = new Date();
     const dateStr = `${today.getFullYear()}.${String(today.getMonth() + 1).padStart(2, '0')}.${String(today.getDate()).padStart(2, '0')}`;
@@ -126,20 +157,46 @@ export const NotebookView: React.FC<Props> = ({ answers, summary, onClose }) =>
 
         {/* Content */}
         <div className="flex-1 pb-16 pt-2 px-4 md:px-10 relative z-10">
-            {partQuestions.map((q) => {
-                const answer = answers[q.id] || "";
-                return (
-                <div key={q.id} className="relative group mb-6 leading-[2rem]">
-                    <span className="font-bold text-stone-800 font-serif text-sm tracking-wide mr-2 select-text">
-                        {q.id}. {q.text}
-                    </span>
-                    
-                    <span className="font-chinese-hand text-xl text-blue-900 select-text break-words" style={{ textShadow: '0 0 1px rgba(30, 58, 138, 0.1)' }}>
-                        {answer.trim() || <span className="text-stone-300 select-none">...</span>}
+            {partQuestions.map((q) => (
+                <div key={q.id} className={`relative group mb-6 leading-[2rem] ${q.followUp ? 'pl-6 -mt-4' : ''}`}>
+                    <span className={`font-serif text-sm tracking-wide mr-2 select-text ${q.followUp ? 'text-stone-500' : 'font-bold text-stone-800'}`}>
+                        {q.followUp ? '↳ ' : `${mainQuestions.indexOf(q) + 1}. `}{q.text}
                     </span>
+                    {writers.map((writer, writerIndex) => {
+                      const answer = writer.answers[q.id] || "";
+                      const status = getAnswerStatus(q.id, writer.answers, writer.answerMeta);
+                      const writerAttachments = writer.attachments[q.id];
+                      return (
+                        <div key={writerIndex} className={writer.name ? '' : 'contents'}>
+                          {writer.name && (
+                            <span className="font-typewriter text-[10px] text-stone-400 tracking-widest uppercase mr-2 select-none">{writer.name}</span>
+                          )}
+                          <span className={`${getHandFont(resolveLocale(pack.locale))} ${isEnglish ? 'text-2xl' : 'text-xl'} ${writer.ink} select-text break-words`} style={{ textShadow: '0 0 1px rgba(30, 58, 138, 0.1)' }}>
+                              {answer.trim() || (
+                                <span className="text-stone-300 select-none">
+                                  {status === 'declined' || status === 'skipped' ? `(${t.answerStatus[status]})` : '...'}
+                                </span>
+                              )}
+                          </span>
+                          {answer.trim() && (status === 'imported' || status === 'ai-assisted') && (
+                              <span className="ml-2 font-typewriter text-[9px] text-stone-400 tracking-widest select-none" title={writer.answerMeta[q.id]?.edited ? t.editedAfterImport : undefined}>
+                                  {t.answerStatus[status]}{writer.answerMeta[q.id]?.edited ? '*' : ''}
+                              </span>
+                          )}
+                          {writerAttachments && (
+                              <div className="flex flex-wrap gap-3 mt-2 mb-2">
+                                  {writerAttachments.map((attachment, index) => (
+                                      <div key={attachment.id} className={`p-1 pb-3 bg-white shadow-sm border border-stone-100 ${index % 2 === 0 ? '-rotate-2' : 'rotate-1'}`}>
+                                          <img src={attachment.dataUrl} alt="" className="h-24 w-auto max-w-[10rem] object-cover" />
+                                      </div>
+                                  ))}
+                              </div>
+                          )}
+                        </div>
+                      );
+                    })}
                 </div>
-                );
-            })}
+            ))}
         </div>
         
         {/* Footer Page Number */}
@@ -161,17 +218,17 @@ export const NotebookView: React.FC<Props> = ({ answers, summary, onClose }) =>
           onClick={handleDownloadSpread}
           disabled={isDownloading}
           className="text-stone-400 hover:text-white transition-colors p-2 flex flex-col items-center gap-1 group"
-          title="保存图片"
+          title={t.saveImage}
         >
           <Download size={32} className={`${isDownloading ? 'animate-bounce' : ''}`} />
-          <span className="text-[10px] opacity-0 group-hover:opacity-100 transition-opacity">保存</span>
+          <span className="text-[10px] opacity-0 group-hover:opacity-100 transition-opacity">{t.save}</span>
         </button>
         <button 
           onClick={onClose}
           className="text-stone-400 hover:text-white transition-colors p-2 flex flex-col items-center gap-1 group"
         >
           <X size={32} />
-          <span className="text-[10px] opacity-0 group-hover:opacity-100 transition-opacity">关闭</span>
+          <span className="text-[10px] opacity-0 group-hover:opacity-100 transition-opacity">{t.close}</span>
         </button>
       </div>
 
@@ -188,13 +245,13 @@ export const NotebookView: React.FC<Props> = ({ answers, summary, onClose }) =>
            {/* Navigation Hit Area */}
            <div className="absolute inset-y-0 left-0 w-12 z-50 cursor-pointer hover:bg-black/5 transition-colors flex items-center justify-center group"
                 onClick={handlePrev}
-                title="上一页">
+                title={t.previousPage}>
               {currentSpread > 0 && <ArrowLeft className="text-stone-400 group-hover:text-stone-800" />}
            </div>
 
            {/* Scrollable Container */}
            <div className="w-full h-full overflow-y-auto custom-scrollbar pl-3 notebook-scroll-area">
-              <NotebookPage part={currentSpread === 0 ? 1 : 3} />
+              {leftPart !== undefined && <NotebookPage part={leftPart} />}
            </div>
 
            {/* Page Shadow */}
@@ -211,13 +268,13 @@ export const NotebookView: React.FC<Props> = ({ answers, summary, onClose }) =>
             {/* Navigation Hit Area */}
            <div className="absolute inset-y-0 right-0 w-12 z-50 cursor-pointer hover:bg-black/5 transition-colors flex items-center justify-center group"
                 onClick={handleNext}
-                title="下一页">
+                title={t.nextPage}>
               {currentSpread < totalSpreads - 1 && <ArrowRight className="text-stone-400 group-hover:text-stone-800" />}
            </div>
 
            {/* Scrollable Container */}
            <div className="w-full h-full overflow-y-auto custom-scrollbar notebook-scroll-area">
-              <NotebookPage part={currentSpread === 0 ? 2 : 4} />
+              {rightPart !== undefined && <NotebookPage part={rightPart} />}
            </div>
 
            {/* Page Shadow */}
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { ArrowRight, Bell, BellOff, CalendarDays, Check, Flame, Plus, Wand2 } from 'lucide-react';
+import { AnswerMetaMap, Answers, Locale, PacedPlan, QuestionPack } from '../types';
+import { getMainQuestions } from '../services/followUpService';
+import { getAnswerStatus } from '../services/answerStatusService';
+import {
+  DEFAULT_REMINDER_TIME,
+  getDayNumber,
+  getOpenQuestions,
+  getStreak,
+  getTotalDays,
+  isBatchDone,
+  toDateKey,
+} from '../services/pacedService';
+import { ReminderSetup, disableReminders, enableReminders } from '../services/reminderService';
+import { getStrings } from '../i18n';
+
+interface Props {
+  locale: Locale;
+  year: number;
+  pack: QuestionPack;
+  plan: PacedPlan;
+  answers: Answers;
+  answerMeta: AnswerMetaMap;
+  onPlanChange: (plan: PacedPlan) => void;
+  onStartToday: () => void;
+  onKeepGoing: () => void;
+  onGenerateNow: () => void;
+}
+
+export const PacedHome: React.FC<Props> = ({ locale, year, pack, plan, answers, answerMeta, onPlanChange, onStartToday, onKeepGoing, onGenerateNow }) => {
+  const t = getStrings(locale);
+  const [reminderProblem, setReminderProblem] = useState<Exclude<ReminderSetup, 'enabled'> | null>(null);
+
+  const mainQuestions = getMainQuestions(pack.questions);
+  const openCount = getOpenQuestions(pack.questions, answers, answerMeta).length;
+  const batchQuestions = plan.batch.questionIds
+    .map(id => mainQuestions.find(q => q.id === id))
+    .filter((q): q is NonNullable<typeof q> => !!q);
+  const doneToday = isBatchDone(plan, answers, answerMeta);
+  const streak = getStreak(plan);
+
+  const toggleReminder = async () => {
+    if (plan.reminderTime) {
+      onPlanChange({ ...plan, reminderTime: undefined });
+      disableReminders();
+      return;
+    }
+    const setup = await enableReminders();
+    if (setup === 'enabled') {
+      setReminderProblem(null);
+      onPlanChange({ ...plan, reminderTime: DEFAULT_REMINDER_TIME });
+    } else {
+      setReminderProblem(setup);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-[#fdfbf7] text-stone-800 px-6 py-12 fade-in">
+      <div className="w-full max-w-xl space-y-10">
+        <div className="text-center space-y-3">
+          <div className="font-typewriter text-xs text-stone-400 tracking-[0.3em] uppercase">{year} · {pack.title}</div>
+          <h2 className="text-4xl font-retro text-stone-900 tracking-widest">{t.pacedDayOf(getDayNumber(plan), getTotalDays(plan))}</h2>
+          <div className="flex items-center justify-center gap-6 font-serif text-sm text-stone-500">
+            <span className={`inline-flex items-center gap-1.5 ${streak > 0 ? 'text-orange-700' : ''}`}>
+              <Flame className={`w-4 h-4 ${streak > 0 ? 'fill-orange-400 text-orange-600' : ''}`} />
+              {t.pacedStreak(streak)}
+            </span>
+            <span>{t.pacedAnswered(mainQuestions.length - openCount, mainQuestions.length)}</span>
+          </div>
+        </div>
+
+        {/* Today's batch */}
+        <div className="bg-[#fef9c3] px-6 py-5 shadow-md -rotate-1 space-y-1">
+          <div className="font-hand text-2xl text-stone-700 leading-none mb-3">{t.pacedTodayHeading}</div>
+          {batchQuestions.map(question => {
+            const settled = !!getAnswerStatus(question.id, answers, answerMeta);
+            return (
+              <div key={question.id} className="flex items-start gap-3 py-1 font-serif text-sm">
+                <span className={`mt-0.5 w-4 h-4 flex-shrink-0 rounded-full border flex items-center justify-center ${settled ? 'bg-stone-800 border-stone-800 text-[#fef9c3]' : 'border-stone-400'}`}>
+                  {settled && <Check className="w-3 h-3" />}
+                </span>
+                <span className={settled ? 'text-stone-400 line-through decoration-stone-300' : 'text-stone-800'}>
+                  {mainQuestions.indexOf(question) + 1}. {question.text}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-col items-center gap-4">
+          {doneToday ? (
+            <>
+              <p className="font-hand text-2xl text-stone-600">{t.pacedDoneToday}</p>
+              {openCount > 0 && (
+                <button
+                  onClick={onKeepGoing}
+                  className="inline-flex items-center gap-2 font-serif text-sm text-stone-500 hover:text-stone-800 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>{t.pacedKeepGoing}</span>
+                </button>
+              )}
+            </>
+          ) : (
+            <button
+              onClick={onStartToday}
+              className="group inline-flex items-center justify-center px-10 py-4 text-lg font-serif text-white transition-all duration-300 bg-stone-900 rounded-sm hover:bg-stone-800 hover:shadow-2xl hover:-translate-y-1"
+            >
+              <span>{t.pacedStartToday}</span>
+              <ArrowRight className="ml-3 w-5 h-5 group-hover:translate-x-1 transition-transform" />
+            </button>
+          )}
+        </div>
+
+        {/* Settings */}
+        <div className="border-t border-stone-200 pt-6 space-y-4 font-serif text-sm text-stone-600">
+          <label className="flex items-center justify-between gap-4">
+            <span className="inline-flex items-center gap-2">
+              <CalendarDays className="w-4 h-4 text-stone-400" />
+              {t.pacedEndDate}
+            </span>
+            <input
+              type="date"
+              value={plan.endDate}
+              min={toDateKey()}
+              onChange={(e) => e.target.value && onPlanChange({ ...plan, endDate: e.target.value })}
+              className="bg-transparent border-b border-stone-200 focus:border-stone-700 outline-none py-1 font-typewriter text-xs"
+            />
+          </label>
+          <p className="text-xs text-stone-400">{t.pacedEndDateNote}</p>
+
+          <div className="flex items-center justify-between gap-4">
+            <button
+              onClick={toggleReminder}
+              className={`inline-flex items-center gap-2 transition-colors ${plan.reminderTime ? 'text-stone-800' : 'text-stone-400 hover:text-stone-700'}`}
+            >
+              {plan.reminderTime ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+              <span>{t.pacedReminder}</span>
+            </button>
+            {plan.reminderTime && (
+              <input
+                type="time"
+                value={plan.reminderTime}
+                onChange={(e) => e.target.value && onPlanChange({ ...plan, reminderTime: e.target.value })}
+                className="bg-transparent border-b border-stone-200 focus:border-stone-700 outline-none py-1 font-typewriter text-xs"
+              />
+            )}
+          </div>
+          {reminderProblem && (
+            <p className="text-xs text-red-600">{reminderProblem === 'denied' ? t.pacedReminderDenied : t.pacedReminderUnsupported}</p>
+          )}
+
+          <button
+            onClick={onGenerateNow}
+            className="inline-flex items-center gap-2 text-stone-400 hover:text-stone-700 transition-colors"
+          >
+            <Wand2 className="w-4 h-4" />
+            <span>{t.pacedGenerateNow}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { X, ChevronUp, ChevronDown, Trash2, Plus } from 'lucide-react';
+import { Locale, Question, QuestionPack, SummaryTheme } from '../types';
+import {
+  createPersonalPack,
+  getNextPartId,
+  getNextQuestionId,
+  isBuiltinPack,
+  moveQuestion,
+  parseQuestionPack,
+  removeQuestion,
+  setQuestionPart,
+} from '../services/questionPackService';
+import { getFollowUps, getMainQuestions } from '../services/followUpService';
+import { SUMMARY_THEMES, getCategoryTheme } from '../services/summaryThemeService';
+import { getStrings } from '../i18n';
+
+interface Props {
+  locale: Locale;
+  pack: QuestionPack;
+  onSave: (pack: QuestionPack) => void;
+  onClose: () => void;
+}
+
+export const PackEditor: React.FC<Props> = ({ locale, pack, onSave, onClose }) => {
+  const t = getStrings(locale);
+  const isBuiltin = isBuiltinPack(pack);
+  const [draft, setDraft] = useState<QuestionPack>(() => (isBuiltin ? createPersonalPack(pack, t.personalPackTitle(pack.title)) : pack));
+  const [error, setError] = useState<string | null>(null);
+
+  const mainQuestions = getMainQuestions(draft.questions);
+
+  const updateQuestion = (id: number, changes: Partial<Question>) => {
+    setDraft(prev => ({ ...prev, questions: prev.questions.map(q => (q.id === id ? { ...q, ...changes } : q)) }));
+  };
+
+  const updatePartTitle = (id: number, title: string) => {
+    setDraft(prev => ({ ...prev, parts: prev.parts.map(p => (p.id === id ? { ...p, title } : p)) }));
+  };
+
+  const addQuestion = (part: number) => {
+    setDraft(prev => {
+      const question: Question = { id: getNextQuestionId(prev), part, text: '', category: '' };
+      // Append after the part's last question so the asking order stays grouped by part
+      const lastIndex = prev.questions.map(q => q.part).lastIndexOf(part);
+      const questions = [...prev.questions];
+      questions.splice(lastIndex === -1 ? questions.length : lastIndex + 1, 0, question);
+      return { ...prev, questions };
+    });
+  };
+
+  const addPart = () => {
+    setDraft(prev => {
+      const id = getNextPartId(prev);
+      return { ...prev, parts: [...prev.parts, { id, title: t.newPartTitle(id) }] };
+    });
+  };
+
+  const removePart = (id: number) => {
+    setDraft(prev => ({ ...prev, parts: prev.parts.filter(p => p.id !== id) }));
+  };
+
+  const handleSave = () => {
+    try {
+      // Categories are whatever the questions use now; the parser also drops empty parts
+      const categories = [...new Set(draft.questions.map(q => q.category.trim()).filter(Boolean))];
+      onSave(parseQuestionPack({ ...draft, categories }));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const inputClass = 'bg-transparent border-0 border-b border-stone-200 focus:border-stone-700 outline-none py-1 transition-colors';
+
+  // Rows are rendered by plain functions, not inner components, so inputs keep focus while typing
+  const renderThemeSelect = (question: Question) => {
+    const autoTheme = getCategoryTheme(question.category);
+    return (
+      <select
+        value={question.theme || ''}
+        onChange={(e) => updateQuestion(question.id, { theme: (e.target.value || undefined) as SummaryTheme | undefined })}
+        title={t.summaryCard}
+        className={`${inputClass} font-serif text-xs text-stone-500`}
+      >
+        <option value="">{t.autoTheme(autoTheme && t.summaryThemes[autoTheme])}</option>
+        {SUMMARY_THEMES.map(theme => (
+          <option key={theme} value={theme}>{t.summaryThemes[theme]}</option>
+        ))}
+      </select>
+    );
+  };
+
+  const renderQuestionRow = (question: Question, depth: number): React.ReactNode => {
+    const siblings = mainQuestions.filter(q => q.part === question.part);
+    const index = siblings.indexOf(question);
+    return (
+      <React.Fragment key={question.id}>
+        <div className="flex items-start gap-3 py-3 border-t border-stone-200" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+          <span className="w-8 flex-shrink-0 pt-1 font-typewriter text-sm text-stone-400 text-right">
+            {question.followUp ? '↳' : mainQuestions.indexOf(question) + 1}
+          </span>
+          <div className="flex-1 space-y-2">
+            <input
+              type="text"
+              value={question.text}
+              onChange={(e) => updateQuestion(question.id, { text: e.target.value })}
+              placeholder={t.questionTextPlaceholder}
+              className={`${inputClass} w-full font-serif text-stone-900`}
+            />
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                type="text"
+                value={question.category}
+                onChange={(e) => updateQuestion(question.id, { category: e.target.value })}
+                placeholder={t.categoryPlaceholder}
+                list="pack-editor-categories"
+                className={`${inputClass} w-28 font-hand text-lg text-stone-600`}
+              />
+              {!question.followUp && (
+                <select
+                  value={question.part}
+                  onChange={(e) => setDraft(prev => setQuestionPart(prev, question.id, Number(e.target.value)))}
+                  className={`${inputClass} font-serif text-xs text-stone-500`}
+                >
+                  {draft.parts.map(part => (
+                    <option key={part.id} value={part.id}>PART {part.id}{part.title ? ` · ${part.title}` : ''}</option>
+                  ))}
+                </select>
+              )}
+              {renderThemeSelect(question)}
+            </div>
+          </div>
+          <div className="flex items-center gap-1 text-stone-300">
+            {!question.followUp && (
+              <>
+                <button
+                  onClick={() => setDraft(prev => moveQuestion(prev, question.id, -1))}
+                  disabled={index === 0}
+                  className="p-1 hover:text-stone-700 disabled:opacity-30 disabled:hover:text-stone-300"
+                  title={t.moveUp}
+                >
+                  <ChevronUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setDraft(prev => moveQuestion(prev, question.id, 1))}
+                  disabled={index === siblings.length - 1}
+                  className="p-1 hover:text-stone-700 disabled:opacity-30 disabled:hover:text-stone-300"
+                  title={t.moveDown}
+                >
+                  <ChevronDown className="w-4 h-4" />
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => setDraft(prev => removeQuestion(prev, question.id))}
+              className="p-1 hover:text-red-600"
+              title={t.removeQuestion}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+        {getFollowUps(draft.questions, question.id).map(followUp => renderQuestionRow(followUp, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[10000] bg-stone-900/60 backdrop-blur-sm flex items-center justify-center p-4 fade-in">
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-[#fdfbf7] shadow-2xl rounded-sm relative">
+        <button onClick={onClose} className="absolute top-4 right-4 p-2 text-stone-400 hover:text-stone-800 transition-colors" title={t.close}>
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="px-6 md:px-10 pt-8 pb-4 border-b border-stone-200">
+          <div className="font-typewriter text-xs text-stone-400 tracking-widest uppercase">Question Pack</div>
+          <h2 className="text-2xl font-serif font-bold text-stone-900 tracking-wide mt-1 mb-4">{t.packEditorTitle}</h2>
+          <input
+            type="text"
+            value={draft.title}
+            onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+            placeholder={t.packTitle}
+            className={`${inputClass} w-full font-retro text-2xl text-stone-900`}
+          />
+          {isBuiltin && <p className="mt-2 font-serif text-xs text-stone-400">{t.builtinPackNote}</p>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-6 md:px-10 py-6 space-y-8">
+          <datalist id="pack-editor-categories">
+            {[...new Set(draft.questions.map(q => q.category).filter(Boolean))].map(category => (
+              <option key={category} value={category} />
+            ))}
+          </datalist>
+
+          {draft.parts.map(part => {
+            const partQuestions = mainQuestions.filter(q => q.part === part.id);
+            return (
+              <div key={part.id}>
+                <div className="flex items-baseline gap-3 mb-2">
+                  <span className="font-serif font-bold text-stone-800 text-sm flex-shrink-0">PART {part.id}</span>
+                  <input
+                    type="text"
+                    value={part.title}
+                    onChange={(e) => updatePartTitle(part.id, e.target.value)}
+                    placeholder={t.partTitlePlaceholder}
+                    className={`${inputClass} flex-1 font-hand text-lg text-stone-600`}
+                  />
+                  {partQuestions.length === 0 && (
+                    <button onClick={() => removePart(part.id)} className="p-1 text-stone-300 hover:text-red-600" title={t.removePart}>
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                {partQuestions.map(q => renderQuestionRow(q, 0))}
+                <button
+                  onClick={() => addQuestion(part.id)}
+                  className="mt-2 inline-flex items-center gap-2 font-serif text-sm text-stone-400 hover:text-stone-800 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>{t.addQuestion}</span>
+                </button>
+              </div>
+            );
+          })}
+
+          <button
+            onClick={addPart}
+            className="inline-flex items-center gap-2 px-4 py-2 border border-dashed border-stone-300 font-serif text-sm text-stone-500 hover:border-stone-500 hover:text-stone-800 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>{t.addPart}</span>
+          </button>
+        </div>
+
+        <div className="px-6 md:px-10 py-4 border-t border-stone-200 flex items-center justify-between gap-4">
+          <p className="font-serif text-xs text-red-600 flex-1">{error}</p>
+          <button onClick={onClose} className="px-4 py-2 font-serif text-stone-500 hover:text-stone-800 transition-colors">
+            {t.cancel}
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-6 py-2 bg-stone-900 text-[#f4f0e6] font-serif rounded-sm hover:bg-stone-800 transition-colors shadow-md"
+          >
+            {t.savePack}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
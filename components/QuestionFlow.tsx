@@ -1,21 +1,79 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { ArrowRight, Sparkles, ChevronLeft } from 'lucide-react';
-import { Question, Answers } from '../types';
-import { QUESTIONS } from '../constants';
+import { ArrowRight, Sparkles, ChevronLeft, LayoutGrid, Flag, ImagePlus, PenTool, X } from 'lucide-react';
+import { AnswerAttachments, AnswerMetaMap, AnswerStatus, Answers, AnswerValue, AnswerValues, JournalSuggestions, Locale, Question, QuestionPack, WritingStatsMap } from '../types';
 import { getInspiration } from '../services/openaiService';
+import { getPartTitle } from '../services/questionPackService';
+import { formatAnswerValue, isTypedQuestion } from '../services/answerValueService';
+import { getMainQuestions, getQuestionFlow, getRootQuestion } from '../services/followUpService';
+import { recordTyping, setAnswerStatus } from '../services/answerStatusService';
+import { getHandFont, resolveLocale } from '../services/localeService';
+import { addAttachment, createSketchAttachment, readPhotoFile, removeAttachment } from '../services/attachmentService';
+import { IDLE_GAP_MS, MIN_VISIT_MS, addWritingTime, recordHintUse, recordVisit } from '../services/writingStatsService';
+import { getStrings } from '../i18n';
+import { AnswerInput } from './AnswerInput';
+import { QuestionNavigator } from './QuestionNavigator';
+import { SketchPad } from './SketchPad';
+import { JournalPanel } from './JournalPanel';
 
 interface Props {
+  locale: Locale;
+  pack: QuestionPack;
   answers: Answers;
   setAnswers: React.Dispatch<React.SetStateAction<Answers>>;
+  answerValues: AnswerValues;
+  setAnswerValues: React.Dispatch<React.SetStateAction<AnswerValues>>;
+  flagged: number[];
+  setFlagged: React.Dispatch<React.SetStateAction<number[]>>;
+  answerMeta: AnswerMetaMap;
+  setAnswerMeta: React.Dispatch<React.SetStateAction<AnswerMetaMap>>;
+  attachments: AnswerAttachments;
+  setAttachments: React.Dispatch<React.SetStateAction<AnswerAttachments>>;
+  setWritingStats: React.Dispatch<React.SetStateAction<WritingStatsMap>>;
+  currentIndex: number;
+  setCurrentIndex: React.Dispatch<React.SetStateAction<number>>;
+  questionIds?: number[]; // paced mode: only these main questions (and their follow-ups) are asked
+  participantName?: string; // pair mode: whose turn it is
+  journal?: JournalSuggestions | null; // excerpts from an imported journal, by question
   onComplete: () => void;
 }
 
-export const QuestionFlow: React.FC<Props> = ({ answers, setAnswers, onComplete }) => {
-  const [currentIndex, setCurrentIndex] = useState(0);
+// Follow-ups join the flow as soon as their parent's answer triggers them,
+// so currentIndex and progress count the questions actually being asked.
+// A paced batch or a custom pack can leave nothing to ask, and then only finishing is offered.
+export const QuestionFlow: React.FC<Props> = (props) => {
+  const { locale, pack, answers, questionIds, onComplete } = props;
+  const t = getStrings(locale);
+  const questions = getQuestionFlow(pack.questions, answers)
+    .filter(q => !questionIds || questionIds.includes(getRootQuestion(pack.questions, q).id));
+
+  if (questions.length === 0) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-8 bg-[#fdfbf7] text-stone-800 fade-in">
+        <p className="font-serif text-xl text-stone-500">{t.flowEmpty}</p>
+        <button
+          onClick={onComplete}
+          className="group flex items-center gap-3 px-8 py-3 bg-stone-900 text-[#f4f0e6] font-serif text-lg rounded-sm hover:bg-stone-800 transition-all shadow-lg hover:shadow-xl hover:-translate-y-0.5"
+        >
+          <span>{t.finish}</span>
+          <ArrowRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
+        </button>
+      </div>
+    );
+  }
+  return <QuestionSteps {...props} questions={questions} />;
+};
+
+const QuestionSteps: React.FC<Props & { questions: Question[] }> = ({ locale, pack, answers, setAnswers, answerValues, setAnswerValues, flagged, setFlagged, answerMeta, setAnswerMeta, attachments, setAttachments, setWritingStats, currentIndex, setCurrentIndex, participantName, journal, onComplete, questions }) => {
+  const t = getStrings(locale);
+  // Answers, hints and formatted values follow the pack's language; the chrome follows the UI's
+  const contentLocale = resolveLocale(pack.locale);
+  const handFont = getHandFont(contentLocale);
   const [currentInput, setCurrentInput] = useState('');
   const [isSparking, setIsSparking] = useState(false);
   const [hint, setHint] = useState<string | null>(null);
   const [animating, setAnimating] = useState(false);
+  const [showNavigator, setShowNavigator] = useState(false);
+  const [showSketchPad, setShowSketchPad] = useState(false);
   
   // Interstitial State
   const [showPartTransition, setShowPartTransition] = useState(false);
@@ -23,16 +81,25 @@ export const QuestionFlow: React.FC<Props> = ({ answers, setAnswers, onComplete
   const [transitionPartTitle, setTransitionPartTitle] = useState("");
 
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
 
-  const currentQuestion = QUESTIONS[currentIndex];
+  const currentQuestion = questions[Math.min(currentIndex, questions.length - 1)];
+  const parentQuestion = currentQuestion.followUp ? pack.questions.find(q => q.id === currentQuestion.followUp!.parentId) : undefined;
+  const mainQuestions = getMainQuestions(pack.questions);
+  const questionNumber = mainQuestions.indexOf(getRootQuestion(pack.questions, currentQuestion)) + 1;
   
   // Calculate progress
-  const progress = ((currentIndex + 1) / QUESTIONS.length) * 100;
+  const progress = ((currentIndex + 1) / questions.length) * 100;
+
+  // A changed answer can hide follow-ups, e.g. on a resumed draft; never point past the end
+  useEffect(() => {
+    if (currentIndex > questions.length - 1) setCurrentIndex(questions.length - 1);
+  }, [currentIndex, questions.length]);
 
   useEffect(() => {
     // Check if we entered a new part
     if (currentIndex > 0) {
-      const prevQ = QUESTIONS[currentIndex - 1];
+      const prevQ = questions[currentIndex - 1];
       if (prevQ.part !== currentQuestion.part) {
         triggerPartTransition(currentQuestion.part);
       }
@@ -40,15 +107,8 @@ export const QuestionFlow: React.FC<Props> = ({ answers, setAnswers, onComplete
   }, [currentIndex, currentQuestion.part]);
 
   const triggerPartTransition = (part: number) => {
-    let title = "";
-    switch(part) {
-      case 2: title = "得失 · 感悟"; break;
-      case 3: title = "生活 · 喜好"; break;
-      case 4: title = "自我 · 未来"; break;
-      default: title = "";
-    }
     setTransitionPartNumber(part);
-    setTransitionPartTitle(title);
+    setTransitionPartTitle(getPartTitle(pack, part));
     setShowPartTransition(true);
     
     // Auto hide after 2.5s
@@ -64,15 +124,58 @@ export const QuestionFlow: React.FC<Props> = ({ answers, setAnswers, onComplete
       // Small delay to ensure render
       setTimeout(() => textareaRef.current?.focus(), 100);
     }
-  }, [currentIndex, currentQuestion.id, answers, showPartTransition]);
+    // Answers are written through on every keystroke, so they are deliberately not a dependency here
+  }, [currentIndex, currentQuestion.id, showPartTransition]);
+
+  // Writing stats: active time is flushed on every interaction, the visit itself when the question is left
+  const answersRef = useRef(answers);
+  answersRef.current = answers;
+  const activityRef = useRef({ id: currentQuestion.id, startText: '', lastActivity: Date.now(), visitMs: 0 });
+
+  const trackActivity = (typed: number = 0) => {
+    const activity = activityRef.current;
+    const now = Date.now();
+    const elapsed = Math.min(now - activity.lastActivity, IDLE_GAP_MS);
+    activity.lastActivity = now;
+    activity.visitMs += elapsed;
+    setWritingStats(prev => addWritingTime(prev, activity.id, elapsed, typed));
+  };
+
+  useEffect(() => {
+    const id = currentQuestion.id;
+    activityRef.current = { id, startText: answersRef.current[id] || '', lastActivity: Date.now(), visitMs: 0 };
+    return () => {
+      trackActivity();
+      const { visitMs, startText } = activityRef.current;
+      const changed = (answersRef.current[id] || '') !== startText;
+      if (visitMs >= MIN_VISIT_MS || changed) setWritingStats(prev => recordVisit(prev, id, changed));
+    };
+  }, [currentQuestion.id]);
+
+  const handleInputChange = (value: string) => {
+    trackActivity(Math.max(0, value.length - currentInput.length));
+    setCurrentInput(value);
+    // Write through so the draft autosave captures text that hasn't been submitted yet
+    setAnswers(prev => ({ ...prev, [currentQuestion.id]: value }));
+    setAnswerMeta(prev => recordTyping(prev, currentQuestion.id, value, false));
+  };
+
+  // Typed questions keep the structured value and mirror its text form into answers
+  const handleValueChange = (value: AnswerValue | undefined) => {
+    const id = currentQuestion.id;
+    setAnswerValues(prev => {
+      const next = { ...prev };
+      if (value === undefined) delete next[id];
+      else next[id] = value;
+      return next;
+    });
+    handleInputChange(formatAnswerValue(currentQuestion, value, contentLocale));
+  };
 
   const handleNext = () => {
     setAnimating(true);
     setTimeout(() => {
-      if (currentInput.trim()) {
-        setAnswers(prev => ({ ...prev, [currentQuestion.id]: currentInput }));
-      }
-      if (currentIndex < QUESTIONS.length - 1) {
+      if (currentIndex < questions.length - 1) {
         setCurrentIndex(prev => prev + 1);
       } else {
         onComplete();
@@ -91,19 +194,88 @@ export const QuestionFlow: React.FC<Props> = ({ answers, setAnswers, onComplete
     }
   };
 
-  const handleSkip = () => {
-     setAnswers(prev => ({ ...prev, [currentQuestion.id]: "" }));
-     if (currentIndex < QUESTIONS.length - 1) {
+  const handleJump = (index: number) => {
+    setShowNavigator(false);
+    if (index === currentIndex) return;
+    setAnimating(true);
+    setTimeout(() => {
+      setCurrentIndex(index);
+      setAnimating(false);
+    }, 300);
+  };
+
+  const toggleFlag = () => {
+    const id = currentQuestion.id;
+    setFlagged(prev => (prev.includes(id) ? prev.filter(f => f !== id) : [...prev, id]));
+  };
+
+  // Skipping ("not now") and declining ("rather not say") both clear the answer but are recorded differently.
+  // The status is set directly: clearing through recordTyping would forget when the question was first touched.
+  const leaveUnanswered = (status: AnswerStatus) => {
+     const id = currentQuestion.id;
+     trackActivity();
+     setCurrentInput('');
+     setAnswers(prev => ({ ...prev, [id]: '' }));
+     setAnswerValues(prev => {
+       const next = { ...prev };
+       delete next[id];
+       return next;
+     });
+     setAnswerMeta(prev => setAnswerStatus(prev, id, status));
+     if (currentIndex < questions.length - 1) {
       handleNext();
     } else {
       onComplete();
     }
   }
 
+  const handleSkip = () => leaveUnanswered('skipped');
+
+  const handleDecline = () => leaveUnanswered('declined');
+
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const id = currentQuestion.id;
+    trackActivity();
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    for (const file of files) {
+      try {
+        const attachment = await readPhotoFile(file);
+        setAttachments(prev => addAttachment(prev, id, attachment));
+      } catch (error) {
+        console.error("Photo attachment failed", error);
+        alert(t.photoReadFailed);
+      }
+    }
+  };
+
+  const handleSketchSave = (dataUrl: string) => {
+    trackActivity();
+    setAttachments(prev => addAttachment(prev, currentQuestion.id, createSketchAttachment(dataUrl)));
+    setShowSketchPad(false);
+  };
+
+  // Journal text and hints go after whatever is already written, never over it. Only text the model
+  // wrote (a hint or a journal draft) marks the answer as AI-assisted; a hint that is just read doesn't.
+  const addText = (text: string, drafted: boolean) => {
+    const value = currentInput.trim() ? `${currentInput.trimEnd()}\n${text}` : text;
+    trackActivity(text.length);
+    setCurrentInput(value);
+    setAnswers(prev => ({ ...prev, [currentQuestion.id]: value }));
+    setAnswerMeta(prev => recordTyping(prev, currentQuestion.id, value, drafted));
+  };
+
+  const handleJournalDraft = () => {
+    trackActivity();
+    setWritingStats(prev => recordHintUse(prev, currentQuestion.id));
+  };
+
   const handleSpark = async () => {
     if (isSparking || hint) return;
     setIsSparking(true);
-    const suggestion = await getInspiration(currentQuestion);
+    trackActivity();
+    setWritingStats(prev => recordHintUse(prev, currentQuestion.id));
+    const suggestion = await getInspiration(currentQuestion, contentLocale);
     setHint(suggestion);
     setIsSparking(false);
   };
@@ -135,12 +307,34 @@ export const QuestionFlow: React.FC<Props> = ({ answers, setAnswers, onComplete
             className={`flex items-center gap-2 px-3 py-2 text-stone-500 hover:text-stone-800 transition-all ${currentIndex === 0 ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}
           >
             <ChevronLeft className="w-5 h-5" />
-            <span className="font-serif text-lg">上一题</span>
+            <span className="font-serif text-lg">{t.previousQuestion}</span>
         </button>
         
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setShowNavigator(true)}
+            className="p-2 text-stone-400 hover:text-stone-800 transition-colors"
+            title={t.questionIndex}
+          >
+            <LayoutGrid className="w-5 h-5" />
+          </button>
+          <button
+            onClick={toggleFlag}
+            className={`p-2 transition-colors ${flagged.includes(currentQuestion.id) ? 'text-red-500' : 'text-stone-300 hover:text-stone-600'}`}
+            title={flagged.includes(currentQuestion.id) ? t.unflagQuestion : t.flagQuestion}
+          >
+            <Flag className={`w-5 h-5 ${flagged.includes(currentQuestion.id) ? 'fill-red-500' : ''}`} />
+          </button>
+        </div>
+
         <div className="flex flex-col items-end">
-          <span className="font-typewriter text-xs text-stone-400 tracking-widest">No. {currentQuestion.id.toString().padStart(2, '0')} / 40</span>
+          <span className="font-typewriter text-xs text-stone-400 tracking-widest">
+            No. {questionNumber.toString().padStart(2, '0')}{parentQuestion ? t.followUpTag : ''} / {mainQuestions.length}
+          </span>
           <span className="font-hand text-2xl text-stone-600 mt-1">{currentQuestion.category}</span>
+          {participantName && (
+            <span className="font-serif text-xs text-amber-700 mt-1">{t.pairTurn(participantName)}</span>
+          )}
         </div>
       </div>
 
@@ -150,59 +344,164 @@ export const QuestionFlow: React.FC<Props> = ({ answers, setAnswers, onComplete
         <div className={`flex-1 flex flex-col justify-start space-y-8 ${animating ? 'opacity-0 translate-x-4' : 'opacity-100 translate-x-0'} transition-all duration-300 ease-out`}>
           
           <div className="mt-2">
+            {parentQuestion && (
+              <div className="mb-3 font-serif text-sm text-stone-400 border-l-2 border-stone-300 pl-3">
+                <span>{parentQuestion.text}</span>
+                <span className={`${handFont} text-lg text-stone-500 ml-2`}>{answers[parentQuestion.id]}</span>
+              </div>
+            )}
             <h2 className="text-2xl md:text-3xl font-bold font-serif text-stone-900 leading-normal tracking-wide">
               {currentQuestion.text}
             </h2>
           </div>
 
           <div className="relative group flex-1 flex flex-col min-h-[40vh] bg-transparent">
-            {/* The Notebook Input */}
-            <textarea
-              ref={textareaRef}
-              value={currentInput}
-              onChange={(e) => setCurrentInput(e.target.value)}
-              placeholder="在此书写..."
-              spellCheck={false}
-              className="w-full flex-1 p-0 font-chinese-hand notebook-input text-stone-800 placeholder:text-stone-300/50"
-            />
+            {isTypedQuestion(currentQuestion) ? (
+              <div className="pt-4">
+                <AnswerInput
+                  key={currentQuestion.id}
+                  locale={locale}
+                  handFont={handFont}
+                  question={currentQuestion}
+                  value={answerValues[currentQuestion.id]}
+                  onChange={handleValueChange}
+                />
+              </div>
+            ) : (
+              /* The Notebook Input */
+              <textarea
+                ref={textareaRef}
+                value={currentInput}
+                onChange={(e) => handleInputChange(e.target.value)}
+                placeholder={t.writeHere}
+                spellCheck={false}
+                className={`w-full flex-1 p-0 ${handFont} notebook-input text-stone-800 placeholder:text-stone-300/50`}
+              />
+            )}
             
             {/* AI Spark Button */}
             <button
               onClick={handleSpark}
               className="absolute -right-8 top-0 p-2 text-stone-300 hover:text-amber-600 transition-all duration-300 hover:rotate-12 hover:scale-110"
-              title="给我灵感"
+              title={t.inspireMe}
             >
               <Sparkles className={`w-6 h-6 ${isSparking ? 'animate-spin' : ''}`} />
             </button>
+
+            {journal?.[currentQuestion.id] && (
+              <JournalPanel
+                key={currentQuestion.id}
+                locale={locale}
+                contentLocale={contentLocale}
+                handFont={handFont}
+                question={currentQuestion}
+                excerpts={journal[currentQuestion.id]}
+                onUse={isTypedQuestion(currentQuestion) ? undefined : addText}
+                onDraft={handleJournalDraft}
+              />
+            )}
+          </div>
+
+          {/* Attachments */}
+          <div className="flex flex-wrap items-center gap-3">
+            {(attachments[currentQuestion.id] || []).map((attachment, index) => (
+              <div key={attachment.id} className={`relative group/att p-1.5 pb-4 bg-white shadow-md ${index % 2 === 0 ? '-rotate-2' : 'rotate-2'}`}>
+                <img src={attachment.dataUrl} alt="" className="w-20 h-20 object-cover" />
+                <button
+                  onClick={() => setAttachments(prev => removeAttachment(prev, currentQuestion.id, attachment.id))}
+                  className="absolute -top-2 -right-2 w-5 h-5 bg-stone-800 text-white rounded-full flex items-center justify-center opacity-0 group-hover/att:opacity-100 transition-opacity"
+                  title={t.removeAttachment}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => photoInputRef.current?.click()}
+              className="inline-flex items-center gap-1.5 px-2 py-1 font-serif text-sm text-stone-400 hover:text-stone-700 transition-colors"
+            >
+              <ImagePlus className="w-4 h-4" />
+              <span>{t.attachPhoto}</span>
+            </button>
+            <button
+              onClick={() => setShowSketchPad(true)}
+              className="inline-flex items-center gap-1.5 px-2 py-1 font-serif text-sm text-stone-400 hover:text-stone-700 transition-colors"
+            >
+              <PenTool className="w-4 h-4" />
+              <span>{t.drawSketch}</span>
+            </button>
+            <input type="file" ref={photoInputRef} className="hidden" accept="image/*" multiple onChange={handlePhotoChange} />
           </div>
 
           {hint && (
             <div className="font-hand text-2xl text-stone-600/90 p-6 -rotate-1 transform relative max-w-md mx-auto fade-in">
               <div className="absolute inset-0 bg-yellow-50 transform rotate-1 shadow-sm border border-stone-100 -z-10"></div>
               "{hint}"
+              {!isTypedQuestion(currentQuestion) && (
+                <button
+                  onClick={() => {
+                    addText(hint, true);
+                    setHint(null);
+                  }}
+                  className="block mt-3 font-serif text-xs text-stone-400 hover:text-stone-800 transition-colors"
+                >
+                  {t.useHint}
+                </button>
+              )}
             </div>
           )}
 
+          {answerMeta[currentQuestion.id]?.status === 'declined' && !currentInput.trim() && (
+            <p className="font-serif text-sm text-stone-400">{t.declinedNote}</p>
+          )}
+
           {/* Controls */}
           <div className="flex items-center justify-between pt-4 pb-12">
-            <button
-              onClick={handleSkip}
-              className="px-6 py-3 font-serif text-stone-400 hover:text-stone-600 transition-colors text-lg border border-transparent hover:border-stone-200 rounded"
-            >
-              跳过此题
-            </button>
+            <div className="flex items-center">
+              <button
+                onClick={handleSkip}
+                className="px-6 py-3 font-serif text-stone-400 hover:text-stone-600 transition-colors text-lg border border-transparent hover:border-stone-200 rounded"
+              >
+                {t.skipQuestion}
+              </button>
+              <button
+                onClick={handleDecline}
+                className="px-4 py-3 font-serif text-stone-300 hover:text-stone-500 transition-colors text-sm"
+                title={t.declineHint}
+              >
+                {t.declineQuestion}
+              </button>
+            </div>
             
             <button
               onClick={handleNext}
               className="group flex items-center gap-3 px-8 py-3 bg-stone-900 text-[#f4f0e6] font-serif text-lg rounded-sm hover:bg-stone-800 transition-all shadow-lg hover:shadow-xl hover:-translate-y-0.5"
             >
-              <span>{currentIndex === QUESTIONS.length - 1 ? '完成回忆' : '继续'}</span>
+              <span>{currentIndex === questions.length - 1 ? t.finish : t.next}</span>
               <ArrowRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
             </button>
           </div>
         </div>
       </div>
 
+      {showSketchPad && (
+        <SketchPad locale={locale} onSave={handleSketchSave} onClose={() => setShowSketchPad(false)} />
+      )}
+
+      {showNavigator && (
+        <QuestionNavigator
+          locale={locale}
+          pack={pack}
+          flow={questions}
+          answers={answers}
+          flagged={flagged}
+          answerMeta={answerMeta}
+          currentIndex={currentIndex}
+          onJump={handleJump}
+          onClose={() => setShowNavigator(false)}
+        />
+      )}
+
       {/* Hand-drawn Timeline Progress */}
       <div className="h-12 w-full bg-[#f4f0e6] border-t border-stone-200 flex items-center px-6 relative overflow-hidden">
         <div className="absolute inset-0 opacity-10" style={{backgroundImage: "url('https://www.transparenttextures.com/patterns/aged-paper.png')"}}></div>
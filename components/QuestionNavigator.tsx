@@ -0,0 +1,85 @@
+import React from 'react';
+import { X, Flag } from 'lucide-react';
+import { AnswerMetaMap, Answers, Locale, Question, QuestionPack } from '../types';
+import { getMainQuestions } from '../services/followUpService';
+import { getAnswerStatus } from '../services/answerStatusService';
+import { getStrings } from '../i18n';
+
+interface Props {
+  locale: Locale;
+  pack: QuestionPack;
+  flow: Question[]; // the questions as currently asked, follow-ups included
+  answers: Answers;
+  flagged: number[];
+  answerMeta: AnswerMetaMap;
+  currentIndex: number;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+export const QuestionNavigator: React.FC<Props> = ({ locale, pack, flow, answers, flagged, answerMeta, currentIndex, onJump, onClose }) => {
+  const t = getStrings(locale);
+  const mainQuestions = getMainQuestions(pack.questions);
+
+  const cellStyle = (q: Question, index: number) => {
+    if (index === currentIndex) return 'bg-stone-900 text-[#f4f0e6] border-stone-900';
+    if (answers[q.id]?.trim()) return 'bg-[#fef9c3] text-stone-800 border-stone-300';
+    const status = getAnswerStatus(q.id, answers, answerMeta);
+    if (status === 'skipped') return 'text-stone-400 border-dashed border-stone-400';
+    if (status === 'declined') return 'text-stone-300 border-stone-200 bg-stone-100 line-through';
+    return 'text-stone-400 border-stone-200';
+  };
+
+  return (
+    <div className="fixed inset-0 z-[10000] bg-stone-900/60 backdrop-blur-sm flex items-center justify-center p-4 fade-in" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] overflow-y-auto custom-scrollbar bg-[#fdfbf7] shadow-2xl rounded-sm px-6 md:px-10 py-8 relative"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 p-2 text-stone-400 hover:text-stone-800 transition-colors">
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="font-typewriter text-xs text-stone-400 tracking-widest uppercase">Index</div>
+        <h2 className="text-2xl font-serif font-bold text-stone-900 tracking-wide mt-1 mb-4">{t.questionIndex}</h2>
+
+        {/* Legend */}
+        <div className="flex flex-wrap gap-4 font-serif text-xs text-stone-500 mb-6">
+          <span className="inline-flex items-center gap-1"><span className="w-3 h-3 bg-[#fef9c3] border border-stone-300"></span>{t.legendAnswered}</span>
+          <span className="inline-flex items-center gap-1"><span className="w-3 h-3 border border-dashed border-stone-400"></span>{t.legendSkipped}</span>
+          <span className="inline-flex items-center gap-1"><span className="w-3 h-3 border border-stone-200 bg-stone-100"></span>{t.legendDeclined}</span>
+          <span className="inline-flex items-center gap-1"><span className="w-3 h-3 border border-stone-200"></span>{t.legendEmpty}</span>
+          <span className="inline-flex items-center gap-1"><Flag className="w-3 h-3 text-red-500 fill-red-500" />{t.legendFlagged}</span>
+        </div>
+
+        {pack.parts.map(part => {
+          const cells = flow.map((q, index) => ({ q, index })).filter(({ q }) => q.part === part.id);
+          if (cells.length === 0) return null;
+          return (
+            <div key={part.id} className="mb-6">
+              <div className="flex items-baseline gap-3 mb-3">
+                <span className="font-serif font-bold text-stone-800 text-sm">PART {part.id}</span>
+                <span className="font-hand text-lg text-stone-500">{part.title}</span>
+              </div>
+              <div className="grid grid-cols-5 sm:grid-cols-8 md:grid-cols-10 gap-2">
+                {cells.map(({ q, index }) => (
+                  <button
+                    key={q.id}
+                    onClick={() => onJump(index)}
+                    title={q.text}
+                    className={`relative h-10 border rounded-sm font-typewriter text-sm transition-all hover:-translate-y-0.5 hover:shadow-sm ${cellStyle(q, index)}`}
+                  >
+                    {q.followUp ? '↳' : mainQuestions.indexOf(q) + 1}
+                    {flagged.includes(q.id) && (
+                      <Flag className="absolute -top-1.5 -right-1.5 w-3.5 h-3.5 text-red-500 fill-red-500" />
+                    )}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
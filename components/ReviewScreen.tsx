@@ -0,0 +1,137 @@
+import React from 'react';
+import { ArrowRight, ChevronLeft, FileDown, FileSpreadsheet, Flag } from 'lucide-react';
+import { AnswerMetaMap, Answers, Locale, Question, QuestionPack } from '../types';
+import { getMainQuestions, getQuestionFlow } from '../services/followUpService';
+import { getAnswerStatus } from '../services/answerStatusService';
+import { getHandFont, resolveLocale } from '../services/localeService';
+import { getStrings } from '../i18n';
+
+interface Props {
+  locale: Locale;
+  pack: QuestionPack;
+  answers: Answers;
+  flagged: number[];
+  answerMeta: AnswerMetaMap;
+  onEdit: (question: Question) => void;
+  onBack: () => void;
+  onConfirm: () => void;
+  onExport?: () => void; // team retro members hand this file to the facilitator
+  onExportCsv?: () => void;
+}
+
+export const ReviewScreen: React.FC<Props> = ({ locale, pack, answers, flagged, answerMeta, onEdit, onBack, onConfirm, onExport, onExportCsv }) => {
+  const t = getStrings(locale);
+  const mainQuestions = getMainQuestions(pack.questions);
+  const isEmpty = (q: Question) => !answers[q.id]?.trim();
+  // Declined questions were a deliberate choice, so they are not listed as gaps
+  const declined = mainQuestions.filter(q => isEmpty(q) && getAnswerStatus(q.id, answers, answerMeta) === 'declined');
+  const unanswered = mainQuestions.filter(q => isEmpty(q) && !declined.includes(q));
+  const flaggedQuestions = getQuestionFlow(pack.questions, answers).filter(q => flagged.includes(q.id));
+  const answeredCount = mainQuestions.length - unanswered.length - declined.length;
+
+  const QuestionRow: React.FC<{ question: Question; note?: React.ReactNode }> = ({ question, note }) => (
+    <button
+      onClick={() => onEdit(question)}
+      className="w-full text-left py-3 border-t border-stone-200 group flex items-start justify-between gap-4"
+    >
+      <span className="space-y-1">
+        <span className="block font-serif text-sm text-stone-800 tracking-wide group-hover:text-amber-800 transition-colors">
+          {question.followUp ? '↳ ' : `${mainQuestions.indexOf(question) + 1}. `}{question.text}
+        </span>
+        {note}
+      </span>
+      <ArrowRight className="w-4 h-4 flex-shrink-0 mt-1 text-stone-300 group-hover:text-stone-700 group-hover:translate-x-1 transition-all" />
+    </button>
+  );
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-[#fdfbf7] text-stone-800 px-6 py-12 fade-in">
+      <div className="w-full max-w-2xl space-y-10">
+        <div className="text-center space-y-3">
+          <div className="font-typewriter text-xs text-stone-400 tracking-[0.3em] uppercase">Before Developing</div>
+          <h2 className="text-3xl font-serif font-bold text-stone-900 tracking-widest">{t.reviewTitle}</h2>
+          <p className="font-hand text-2xl text-stone-500">
+            {t.reviewCount(answeredCount, mainQuestions.length, declined.length)}
+          </p>
+        </div>
+
+        {flaggedQuestions.length > 0 && (
+          <div>
+            <h3 className="flex items-center gap-2 font-serif font-bold text-stone-900 mb-2">
+              <Flag className="w-4 h-4 text-red-500 fill-red-500" />
+              {t.flaggedHeading}
+            </h3>
+            {flaggedQuestions.map(q => (
+              <QuestionRow
+                key={q.id}
+                question={q}
+                note={
+                  <span className={`block ${getHandFont(resolveLocale(pack.locale))} text-lg text-blue-900 line-clamp-2`}>
+                    {answers[q.id]?.trim() || <span className="text-stone-300">...</span>}
+                  </span>
+                }
+              />
+            ))}
+          </div>
+        )}
+
+        {unanswered.length > 0 && (
+          <div>
+            <h3 className="font-serif font-bold text-stone-900 mb-2">{t.unansweredHeading}</h3>
+            {unanswered.map(q => (
+              <QuestionRow
+                key={q.id}
+                question={q}
+                note={getAnswerStatus(q.id, answers, answerMeta) === 'skipped' ? <span className="block font-serif text-xs text-stone-400">{t.answerStatus.skipped}</span> : undefined}
+              />
+            ))}
+          </div>
+        )}
+
+        {flaggedQuestions.length === 0 && unanswered.length === 0 && (
+          <p className="text-center font-serif text-stone-500">{t.allAnswered}</p>
+        )}
+
+        {(onExport || onExportCsv) && (
+          <div className="flex items-center justify-center gap-6">
+            {onExport && (
+              <button
+                onClick={onExport}
+                className="inline-flex items-center gap-2 font-serif text-sm text-stone-400 hover:text-stone-700 transition-colors"
+              >
+                <FileDown className="w-4 h-4" />
+                <span>{t.exportAnswers}</span>
+              </button>
+            )}
+            {onExportCsv && (
+              <button
+                onClick={onExportCsv}
+                className="inline-flex items-center gap-2 font-serif text-sm text-stone-400 hover:text-stone-700 transition-colors"
+              >
+                <FileSpreadsheet className="w-4 h-4" />
+                <span>{t.exportCsv}</span>
+              </button>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between pt-4 pb-12">
+          <button
+            onClick={onBack}
+            className="flex items-center gap-2 px-3 py-2 text-stone-500 hover:text-stone-800 transition-colors"
+          >
+            <ChevronLeft className="w-5 h-5" />
+            <span className="font-serif text-lg">{t.backToEditing}</span>
+          </button>
+          <button
+            onClick={onConfirm}
+            className="group flex items-center gap-3 px-8 py-3 bg-stone-900 text-[#f4f0e6] font-serif text-lg rounded-sm hover:bg-stone-800 transition-all shadow-lg hover:shadow-xl hover:-translate-y-0.5"
+          >
+            <span>{t.confirmGenerate}</span>
+            <ArrowRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Eraser } from 'lucide-react';
+import { Locale } from '../types';
+import { getStrings } from '../i18n';
+
+interface Props {
+  locale: Locale;
+  onSave: (dataUrl: string) => void;
+  onClose: () => void;
+}
+
+const CANVAS_WIDTH = 640;
+const CANVAS_HEIGHT = 480;
+const PAPER = '#fdfbf7';
+const INKS = ['#1e3a8a', '#1c1917', '#b91c1c', '#15803d'];
+
+export const SketchPad: React.FC<Props> = ({ locale, onSave, onClose }) => {
+  const t = getStrings(locale);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [ink, setInk] = useState(INKS[0]);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  const clear = () => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    context.fillStyle = PAPER;
+    context.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    setIsEmpty(true);
+  };
+
+  useEffect(clear, []);
+
+  // The canvas is drawn at a fixed size and scaled by CSS, so map pointer positions back
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * CANVAS_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * CANVAS_HEIGHT,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = toCanvasPoint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext('2d');
+    const last = lastPointRef.current;
+    if (!context || !last) return;
+    const point = toCanvasPoint(e);
+    context.strokeStyle = ink;
+    context.lineWidth = e.pointerType === 'pen' ? 1.5 + e.pressure * 3 : 3;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(last.x, last.y);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+    lastPointRef.current = point;
+    setIsEmpty(false);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    lastPointRef.current = null;
+  };
+
+  const handleSave = () => {
+    if (!canvasRef.current || isEmpty) return;
+    onSave(canvasRef.current.toDataURL('image/png'));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[10000] bg-stone-900/60 backdrop-blur-sm flex items-center justify-center p-4 fade-in" onClick={onClose}>
+      <div className="w-full max-w-2xl bg-[#f4f0e6] shadow-2xl rounded-sm p-5 space-y-4 relative" onClick={(e) => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-3 right-3 p-2 text-stone-400 hover:text-stone-800 transition-colors" title={t.close}>
+          <X className="w-5 h-5" />
+        </button>
+        <div className="font-typewriter text-xs text-stone-400 tracking-widest uppercase">Sketch</div>
+
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_WIDTH}
+          height={CANVAS_HEIGHT}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          className="w-full aspect-[4/3] bg-[#fdfbf7] shadow-inner border border-stone-200 cursor-crosshair touch-none"
+        />
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            {INKS.map(color => (
+              <button
+                key={color}
+                onClick={() => setInk(color)}
+                className={`w-6 h-6 rounded-full border-2 transition-transform ${ink === color ? 'border-stone-900 scale-110' : 'border-transparent'}`}
+                style={{ backgroundColor: color }}
+              />
+            ))}
+            <button onClick={clear} className="ml-2 p-1 text-stone-400 hover:text-stone-800 transition-colors" title={t.clearSketch}>
+              <Eraser className="w-5 h-5" />
+            </button>
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={isEmpty}
+            className="px-6 py-2 bg-stone-900 text-[#f4f0e6] font-serif rounded-sm hover:bg-stone-800 transition-colors shadow-md disabled:opacity-40"
+          >
+            {t.attachSketch}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
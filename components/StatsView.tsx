@@ -0,0 +1,120 @@
+import React from 'react';
+import { X, Pin } from 'lucide-react';
+import { Answers, Locale, QuestionPack, WritingStatsMap } from '../types';
+import { summariseWritingStats } from '../services/writingStatsService';
+import { getStrings } from '../i18n';
+
+interface Props {
+  locale: Locale;
+  year: number;
+  pack: QuestionPack;
+  answers: Answers;
+  writingStats: WritingStatsMap;
+  onPinCard?: () => void; // only offered while the card isn't on the board
+  onClose: () => void;
+}
+
+export const StatsView: React.FC<Props> = ({ locale, year, pack, answers, writingStats, onPinCard, onClose }) => {
+  const t = getStrings(locale);
+  const summary = summariseWritingStats(writingStats, pack.questions, answers);
+  const longest = Math.max(1, ...summary.rows.map(row => row.stats.timeMs));
+  const hasStats = summary.totalTimeMs > 0;
+
+  const totals = [
+    { label: t.statsTotalTime, value: t.formatDuration(summary.totalTimeMs) },
+    { label: t.statsChars, value: summary.totalChars },
+    { label: t.statsEdits, value: summary.totalEdits },
+    { label: t.statsHints, value: summary.totalHints },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[10000] bg-stone-900/95 backdrop-blur-md flex flex-col items-center p-4 md:p-8 fade-in overflow-y-auto custom-scrollbar">
+
+      {/* Controls */}
+      <div className="absolute top-6 right-6 z-50">
+        <button
+          onClick={onClose}
+          className="text-stone-400 hover:text-white transition-colors p-2 flex flex-col items-center gap-1 group"
+        >
+          <X size={32} />
+          <span className="text-[10px] opacity-0 group-hover:opacity-100 transition-opacity">{t.close}</span>
+        </button>
+      </div>
+
+      <div className="w-full max-w-[900px] bg-[#fafafa] shadow-[0_30px_60px_rgba(0,0,0,0.5)] rounded-r-md mt-8 mb-16 px-6 md:px-12 py-10 relative">
+        {/* Cover Edge (Left) */}
+        <div className="absolute left-0 top-0 bottom-0 w-3 bg-stone-300 shadow-xl"></div>
+
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 border-b-2 border-stone-800 pb-4">
+          <div>
+            <div className="font-typewriter text-xs text-stone-500 tracking-widest uppercase">{year} · Writing Stats</div>
+            <h2 className="text-3xl font-retro text-stone-900 tracking-widest mt-1">{t.writingStats}</h2>
+          </div>
+          {onPinCard && hasStats && (
+            <button
+              onClick={onPinCard}
+              className="inline-flex items-center gap-2 font-serif text-sm text-stone-500 hover:text-amber-700 transition-colors"
+            >
+              <Pin className="w-4 h-4" />
+              <span>{t.pinStatsCard}</span>
+            </button>
+          )}
+        </div>
+        <p className="mt-2 font-serif text-xs text-stone-400">{t.statsLocalNote}</p>
+
+        {!hasStats ? (
+          <p className="text-center font-serif text-stone-400 py-12">{t.statsEmpty}</p>
+        ) : (
+          <>
+            {/* Totals */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 my-8">
+              {totals.map(total => (
+                <div key={total.label} className="border border-stone-200 px-4 py-3">
+                  <div className="font-typewriter text-[10px] text-stone-400 tracking-widest uppercase">{total.label}</div>
+                  <div className="font-retro text-2xl text-stone-900 mt-1">{total.value}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Hardest */}
+            {summary.hardest.length > 0 && (
+              <div className="mb-10">
+                <h3 className="font-serif font-bold text-stone-900 mb-2">{t.hardestHeading}</h3>
+                {summary.hardest.map(row => (
+                  <div key={row.question.id} className="py-2 border-t border-stone-200 font-serif text-sm text-stone-700 flex justify-between gap-4">
+                    <span>{row.question.followUp ? '↳ ' : `${row.number}. `}{row.question.text}</span>
+                    <span className="flex-shrink-0 font-typewriter text-xs text-stone-500">{t.formatDuration(row.stats.timeMs)} · {row.chars}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Per question */}
+            <div className="hidden md:grid grid-cols-[1fr_8rem_4rem_3rem_3rem] gap-4 font-typewriter text-[10px] text-stone-400 tracking-widest uppercase mb-2">
+              <span></span>
+              <span>{t.statsTime}</span>
+              <span className="text-right">{t.statsChars}</span>
+              <span className="text-right">{t.statsEdits}</span>
+              <span className="text-right">{t.statsHints}</span>
+            </div>
+            {summary.rows.map(row => (
+              <div key={row.question.id} className="grid grid-cols-1 md:grid-cols-[1fr_8rem_4rem_3rem_3rem] gap-1 md:gap-4 items-center py-2 border-t border-stone-200 font-serif text-sm">
+                <span className={row.question.followUp ? 'pl-4 text-stone-500' : 'text-stone-800'}>
+                  {row.question.followUp ? '↳ ' : `${row.number}. `}{row.question.text}
+                </span>
+                <span className="flex items-center gap-2">
+                  <span className="h-1.5 bg-stone-800 rounded-full" style={{ width: `${(row.stats.timeMs / longest) * 5}rem` }}></span>
+                  <span className="font-typewriter text-[10px] text-stone-500 whitespace-nowrap">{row.stats.timeMs > 0 ? t.formatDuration(row.stats.timeMs) : '—'}</span>
+                </span>
+                <span className="font-typewriter text-xs text-stone-600 md:text-right">{row.chars}</span>
+                <span className="font-typewriter text-xs text-stone-600 md:text-right">{row.stats.edits}</span>
+                <span className="font-typewriter text-xs text-stone-600 md:text-right">{row.stats.hints}</span>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
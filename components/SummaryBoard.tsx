@@ -1,20 +1,45 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { RefreshCw, Upload, BookOpen, Camera, Heart, Star, Music, RotateCw, X, Sun, Zap, Coffee, Smile, Anchor, Cloud } from 'lucide-react';
-import { YearSummary, DraggableItem, SummaryContent, Answers } from '../types';
+import { RefreshCw, Upload, BookOpen, Camera, FileDown, FileSpreadsheet, GitCompareArrows, BarChart3, PenLine, Heart, Star, Music, RotateCw, X, Sun, Zap, Coffee, Smile, Anchor, Cloud } from 'lucide-react';
+import { YearSummary, DraggableItem, SummaryContent, Answers, AnswerAttachment, AnswerAttachments, AnswerMetaMap, Locale, PairSession, Question, QuestionPack, WritingStatsMap } from '../types';
 import { NotebookView } from './NotebookView';
+import { StatsView } from './StatsView';
+import { getHandFont, resolveLocale } from '../services/localeService';
+import { listAttachments } from '../services/attachmentService';
+import { summariseWritingStats } from '../services/writingStatsService';
+import { getStrings } from '../i18n';
 import html2canvas from 'html2canvas';
 
 interface Props {
+  locale: Locale;
+  year: number;
+  pack: QuestionPack;
   summary: YearSummary;
   allAnswers?: Answers;
+  answerMeta?: AnswerMetaMap;
+  attachments?: AnswerAttachments;
+  writingStats?: WritingStatsMap;
+  pair?: PairSession | null; // joint review: the notebook shows both people's answers
+  initialItems?: DraggableItem[]; // restored layout; skips the printing animation
+  onItemsChange?: (items: DraggableItem[]) => void;
+  onExport?: () => void;
+  onExportCsv?: () => void;
+  onCompare?: () => void; // only offered once an earlier year is archived
+  onOpenAnswers?: () => void; // replaces the notebook, e.g. with the team retro's aggregate view
+  onContinueEditing?: () => void; // a year opened read-only from the archive
   onRetake: () => void;
 }
 
-export const SummaryBoard: React.FC<Props> = ({ summary, allAnswers, onRetake }) => {
-  const [items, setItems] = useState<DraggableItem[]>([]);
-  const [highestZ, setHighestZ] = useState(10);
-  const [printingIndex, setPrintingIndex] = useState(0);
+export const SummaryBoard: React.FC<Props> = ({ locale, year, pack, summary, allAnswers, answerMeta, attachments = {}, writingStats = {}, pair, initialItems, onItemsChange, onExport, onExportCsv, onCompare, onOpenAnswers, onContinueEditing, onRetake }) => {
+  const t = getStrings(locale);
+  // Cards are written in the pack's language; Caveat needs a size bump to read like Long Cang
+  const isEnglish = resolveLocale(pack.locale) === 'en';
+  const handFont = getHandFont(resolveLocale(pack.locale));
+  const hasRestoredLayout = !!initialItems && initialItems.length > 0;
+  const [items, setItems] = useState<DraggableItem[]>(initialItems || []);
+  const [highestZ, setHighestZ] = useState(() => Math.max(10, ...(initialItems || []).map(i => i.zIndex)));
+  const [printingIndex, setPrintingIndex] = useState(hasRestoredLayout ? summary.cards.length : 0);
   const [showNotebook, setShowNotebook] = useState(false);
+  const [showStats, setShowStats] = useState(false);
   const [isCapturing, setIsCapturing] = useState(false);
   const [activeId, setActiveId] = useState<string | null>(null);
   
@@ -29,6 +54,10 @@ export const SummaryBoard: React.FC<Props> = ({ summary, allAnswers, onRetake })
   const rotationStartAngleRef = useRef<number>(0);
   const itemStartRotationRef = useRef<number>(0);
 
+  useEffect(() => {
+    onItemsChange?.(items);
+  }, [items]);
+
   // Start continuous printing
   useEffect(() => {
     if (printingIndex < summary.cards.length) {
@@ -186,6 +215,67 @@ export const SummaryBoard: React.FC<Props> = ({ summary, allAnswers, onRetake })
     }
   };
 
+  // Answer photos and sketches are offered once the cards are printed; pinning one adds a captioned polaroid
+  const unpinnedAttachments = listAttachments(attachments, pack.questions, allAnswers || {})
+    .filter(({ attachment }) => !items.some(i => i.attachmentId === attachment.id));
+
+  const pinAttachment = (question: Question, attachment: AnswerAttachment) => {
+    const newItem: DraggableItem = {
+      id: `photo-${attachment.id}`,
+      type: 'image-upload',
+      imageUrl: attachment.dataUrl,
+      caption: question.category || question.text,
+      attachmentId: attachment.id,
+      x: window.innerWidth / 2 - 120 + (Math.random() * 200 - 100),
+      y: window.innerHeight / 2 - 160 + (Math.random() * 160 - 80),
+      rotation: Math.random() * 16 - 8,
+      zIndex: highestZ + 1
+    };
+    setHighestZ(prev => prev + 1);
+    setItems(prev => [...prev, newItem]);
+    setActiveId(newItem.id);
+  };
+
+  // The stats card is a single board item; its lines are computed at render time from the live stats
+  const hasStatsCard = items.some(i => i.type === 'stats-card');
+
+  const pinStatsCard = () => {
+    if (hasStatsCard) return;
+    const newItem: DraggableItem = {
+      id: 'stats-card',
+      type: 'stats-card',
+      x: window.innerWidth / 2 - 140 + (Math.random() * 120 - 60),
+      y: window.innerHeight / 2 - 140 + (Math.random() * 120 - 60),
+      rotation: Math.random() * 8 - 4,
+      zIndex: highestZ + 1
+    };
+    setHighestZ(prev => prev + 1);
+    setItems(prev => [...prev, newItem]);
+    setActiveId(newItem.id);
+    setShowStats(false);
+  };
+
+  const renderStatsCard = () => {
+    const stats = summariseWritingStats(writingStats, pack.questions, allAnswers || {});
+    const hardest = stats.hardest[0];
+    return (
+      <div className="w-72 bg-[#fdfbf7] shadow-xl border border-stone-200 px-6 py-5">
+        <div className="font-typewriter text-[10px] text-stone-400 tracking-widest uppercase">{year}</div>
+        <div className="font-retro text-2xl text-stone-900 tracking-widest border-b-2 border-stone-800 pb-2 mb-3">{t.yearInNumbers}</div>
+        <div className="space-y-1 font-typewriter text-sm text-stone-700">
+          {t.statsCardLines(t.formatDuration(stats.totalTimeMs), stats.totalChars, stats.totalEdits, stats.totalHints).map(line => (
+            <div key={line}>{line}</div>
+          ))}
+        </div>
+        {hardest && (
+          <div className={`${handFont} ${isEnglish ? 'text-2xl' : 'text-xl'} text-stone-600 mt-3 leading-tight`}>
+            {t.statsCardHardest(hardest.question.category || hardest.question.text)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const handleDeleteItem = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
     setItems(prev => prev.filter(i => i.id !== id));
@@ -208,11 +298,11 @@ export const SummaryBoard: React.FC<Props> = ({ summary, allAnswers, onRetake })
           logging: false
         });
         const link = document.createElement('a');
-        link.download = `2025-Year-Review.png`;
+        link.download = `${year}-Year-Review.png`;
         link.href = canvas.toDataURL('image/png');
         link.click();
       } catch (error) {
-        alert("保存失败");
+        alert(t.saveFailed);
       } finally {
         setIsCapturing(false);
       }
@@ -230,7 +320,7 @@ export const SummaryBoard: React.FC<Props> = ({ summary, allAnswers, onRetake })
            {/* Decorative strip */}
            <div className="h-4 w-full bg-[#3d3d3d] flex items-center justify-between px-2">
               <span className="text-[8px] text-white/50 tracking-widest font-mono">ADMIT ONE</span>
-              <span className="text-[8px] text-white/50 tracking-widest font-mono">2025</span>
+              <span className="text-[8px] text-white/50 tracking-widest font-mono">{year}</span>
            </div>
            
            <div className="p-5 flex-1 flex flex-col relative">
@@ -246,7 +336,7 @@ export const SummaryBoard: React.FC<Props> = ({ summary, allAnswers, onRetake })
              <p className="font-serif text-sm text-stone-800 leading-relaxed text-justify px-2">{content.content}</p>
              
              <div className="mt-auto pt-4 flex justify-between items-center opacity-70">
-               <span className="font-mono text-xs font-bold border border-stone-800 px-1">DEST: 2025</span>
+               <span className="font-mono text-xs font-bold border border-stone-800 px-1">DEST: {year}</span>
                <span className="font-mono text-xs font-bold bg-stone-800 text-[#e6e2d3] px-2">{content.keyword}</span>
              </div>
            </div>
@@ -262,15 +352,15 @@ export const SummaryBoard: React.FC<Props> = ({ summary, allAnswers, onRetake })
               <div className="absolute inset-0 opacity-10 bg-[url('https://www.transparenttextures.com/patterns/noise.png')]"></div>
               {/* Abstract Visual */}
               <div className="w-full h-full flex items-center justify-center bg-stone-50">
-                 <span className="font-hand text-9xl text-stone-300 transform rotate-12 select-none">{content.keyword ? content.keyword.charAt(0) : '25'}</span>
+                 <span className="font-hand text-9xl text-stone-300 transform rotate-12 select-none">{content.keyword ? content.keyword.charAt(0) : String(year).slice(-2)}</span>
               </div>
-              <div className="absolute bottom-2 right-2 font-mono text-[9px] text-stone-400">2025.12.31</div>
+              <div className="absolute bottom-2 right-2 font-mono text-[9px] text-stone-400">{year}.12.31</div>
            </div>
            
-           <h3 className="font-chinese-hand text-2xl text-stone-800 tracking-widest mb-3 leading-none">{content.title}</h3>
+           <h3 className={`${handFont} ${isEnglish ? 'text-3xl tracking-wide' : 'text-2xl tracking-widest'} text-stone-800 mb-3 leading-none`}>{content.title}</h3>
            
            {/* Handwritten Summary */}
-           <div className="font-chinese-hand text-sm text-stone-600 leading-6 text-center px-2 flex-1 w-full break-words">
+           <div className={`${handFont} ${isEnglish ? 'text-lg' : 'text-sm'} text-stone-600 leading-6 text-center px-2 flex-1 w-full break-words`}>
              {content.content}
            </div>
 
@@ -296,13 +386,13 @@ export const SummaryBoard: React.FC<Props> = ({ summary, allAnswers, onRetake })
 
            {/* Header */}
            <div className="pt-12 px-10 pb-2 z-10 relative">
-              <h3 className="font-chinese-hand text-3xl text-stone-900 mb-1 leading-none">{content.title}</h3>
+              <h3 className={`${handFont} ${isEnglish ? 'text-4xl' : 'text-3xl'} text-stone-900 mb-1 leading-none`}>{content.title}</h3>
               <div className="w-full h-[2px] bg-stone-800/80 rounded-full opacity-10"></div>
            </div>
 
            {/* Content */}
            <div className="px-10 py-2 z-20 relative flex-1">
-              <div className="font-chinese-hand text-xl text-stone-800 leading-[24px]">
+              <div className={`${handFont} ${isEnglish ? 'text-2xl' : 'text-xl'} text-stone-800 leading-[24px]`}>
                  {content.content}
               </div>
            </div>
@@ -341,7 +431,7 @@ export const SummaryBoard: React.FC<Props> = ({ summary, allAnswers, onRetake })
             <div className="mb-6 border-b-2 border-stone-900 pb-4 pt-2">
                <div className="flex justify-between items-center mb-3 opacity-60">
                  <span className="font-typewriter text-[9px] tracking-[0.2em] uppercase">Chapter 01</span>
-                 <span className="font-typewriter text-[9px] tracking-widest">2025</span>
+                 <span className="font-typewriter text-[9px] tracking-widest">{year}</span>
                </div>
                <h3 className="font-serif text-4xl text-stone-900 font-bold leading-tight">{content.title}</h3>
             </div>
@@ -355,7 +445,7 @@ export const SummaryBoard: React.FC<Props> = ({ summary, allAnswers, onRetake })
             
             {/* Footer */}
             <div className="mt-8 pt-4 flex justify-between items-center opacity-60">
-               <span className="text-[9px] font-mono">PAGE 25</span>
+               <span className="text-[9px] font-mono">PAGE {String(year).slice(-2)}</span>
                <span className="font-typewriter text-[9px] uppercase tracking-widest border border-stone-300 px-2 py-0.5 rounded-full">{content.keyword || "END"}</span>
             </div>
         </div>
@@ -380,7 +470,7 @@ export const SummaryBoard: React.FC<Props> = ({ summary, allAnswers, onRetake })
       <div className="absolute inset-0 pointer-events-none z-0 overflow-hidden">
          {/* Top Left Title */}
          <div className="absolute top-8 left-8 select-none">
-            <h1 className="text-5xl font-hand text-white/20 -rotate-3" style={{ textShadow: '2px 2px 0px rgba(0,0,0,0.2)' }}>2025 Review</h1>
+            <h1 className="text-5xl font-hand text-white/20 -rotate-3" style={{ textShadow: '2px 2px 0px rgba(0,0,0,0.2)' }}>{year} Review</h1>
          </div>
          
          {/* Stickers */}
@@ -435,9 +525,14 @@ export const SummaryBoard: React.FC<Props> = ({ summary, allAnswers, onRetake })
              {/* Render Card */}
              {item.type === 'text-card' && item.content && renderCardContent(item.content)}
              
+             {item.type === 'stats-card' && renderStatsCard()}
+
              {item.type === 'image-upload' && item.imageUrl && (
-               <div className="p-3 bg-white shadow-xl w-48 border border-stone-200">
+               <div className={`p-3 bg-white shadow-xl border border-stone-200 ${item.caption ? 'w-56 pb-4' : 'w-48'}`}>
                  <img src={item.imageUrl} alt="Memory" className="w-full h-auto block filter contrast-110 sepia-[0.2]" />
+                 {item.caption && (
+                   <div className={`${handFont} ${isEnglish ? 'text-2xl' : 'text-xl'} text-stone-700 text-center mt-3 leading-none truncate`}>{item.caption}</div>
+                 )}
                </div>
              )}
 
@@ -480,6 +575,23 @@ export const SummaryBoard: React.FC<Props> = ({ summary, allAnswers, onRetake })
       </div>
 
       {/* --- CONTROLS --- */}
+      {/* --- ANSWER PHOTOS TRAY --- */}
+      {printingIndex >= summary.cards.length && unpinnedAttachments.length > 0 && (
+        <div className="absolute top-24 left-6 z-[600] w-28 max-h-[60vh] overflow-y-auto custom-scrollbar bg-black/30 backdrop-blur-sm rounded-sm p-3 space-y-3 no-screenshot fade-in">
+          <div className="font-typewriter text-[9px] text-white/60 tracking-widest uppercase text-center">{t.answerPhotos}</div>
+          {unpinnedAttachments.map(({ question, attachment }) => (
+            <button
+              key={attachment.id}
+              onClick={() => pinAttachment(question, attachment)}
+              title={`${t.pinToBoard} · ${question.text}`}
+              className="block w-full p-1 pb-2 bg-white shadow-md hover:-rotate-2 hover:scale-105 transition-transform"
+            >
+              <img src={attachment.dataUrl} alt="" className="w-full aspect-square object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+
       <div className="absolute bottom-8 right-8 flex flex-col gap-4 z-[9999] no-screenshot">
          <button 
            onClick={handleScreenshot}
@@ -494,13 +606,61 @@ export const SummaryBoard: React.FC<Props> = ({ summary, allAnswers, onRetake })
            <input type="file" accept="image/*" className="hidden" onChange={handleFileUpload} />
          </label>
 
+         {onExport && (
+           <button 
+             onClick={onExport}
+             title={t.exportSession}
+             className="bg-white text-stone-800 w-14 h-14 rounded-full shadow-2xl hover:scale-110 transition-all flex items-center justify-center border-2 border-stone-100 group"
+           >
+             <FileDown className="w-6 h-6 group-hover:text-stone-600" />
+           </button>
+         )}
+
+         {onExportCsv && (
+           <button 
+             onClick={onExportCsv}
+             title={t.exportCsv}
+             className="bg-white text-stone-800 w-14 h-14 rounded-full shadow-2xl hover:scale-110 transition-all flex items-center justify-center border-2 border-stone-100 group"
+           >
+             <FileSpreadsheet className="w-6 h-6 group-hover:text-stone-600" />
+           </button>
+         )}
+
          <button 
-           onClick={() => setShowNotebook(true)}
+           onClick={() => (onOpenAnswers ? onOpenAnswers() : setShowNotebook(true))}
            className="bg-amber-100 text-amber-900 w-14 h-14 rounded-full shadow-2xl hover:bg-amber-200 hover:scale-110 transition-all flex items-center justify-center border-2 border-amber-300 group"
          >
            <BookOpen className="w-6 h-6 group-hover:scale-110 transition-transform" />
          </button>
 
+         {onCompare && (
+           <button 
+             onClick={onCompare}
+             title={t.compareYears}
+             className="bg-amber-100 text-amber-900 w-14 h-14 rounded-full shadow-2xl hover:bg-amber-200 hover:scale-110 transition-all flex items-center justify-center border-2 border-amber-300 group"
+           >
+             <GitCompareArrows className="w-6 h-6 group-hover:scale-110 transition-transform" />
+           </button>
+         )}
+
+         <button 
+           onClick={() => setShowStats(true)}
+           title={t.writingStats}
+           className="bg-amber-100 text-amber-900 w-14 h-14 rounded-full shadow-2xl hover:bg-amber-200 hover:scale-110 transition-all flex items-center justify-center border-2 border-amber-300 group"
+         >
+           <BarChart3 className="w-6 h-6 group-hover:scale-110 transition-transform" />
+         </button>
+
+         {onContinueEditing && (
+           <button 
+             onClick={onContinueEditing}
+             title={t.continueEditing}
+             className="bg-amber-100 text-amber-900 w-14 h-14 rounded-full shadow-2xl hover:bg-amber-200 hover:scale-110 transition-all flex items-center justify-center border-2 border-amber-300 group"
+           >
+             <PenLine className="w-6 h-6 group-hover:scale-110 transition-transform" />
+           </button>
+         )}
+
          <button 
            onClick={onRetake}
            className="bg-stone-800 text-stone-100 w-14 h-14 rounded-full shadow-2xl hover:bg-stone-700 hover:scale-110 transition-all flex items-center justify-center border-2 border-stone-700 group"
@@ -513,11 +673,29 @@ export const SummaryBoard: React.FC<Props> = ({ summary, allAnswers, onRetake })
     {/* Notebook Overlay */}
     {showNotebook && (
       <NotebookView 
+        locale={locale}
+        year={year}
+        pack={pack}
         answers={allAnswers || {}} 
+        answerMeta={answerMeta}
+        attachments={attachments}
+        pair={pair}
         summary={summary} 
         onClose={() => setShowNotebook(false)} 
       />
     )}
+
+    {showStats && (
+      <StatsView
+        locale={locale}
+        year={year}
+        pack={pack}
+        answers={allAnswers || {}}
+        writingStats={writingStats}
+        onPinCard={hasStatsCard ? undefined : pinStatsCard}
+        onClose={() => setShowStats(false)}
+      />
+    )}
     </>
   );
 };
\ No newline at end of file
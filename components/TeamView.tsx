@@ -0,0 +1,104 @@
+import React from 'react';
+import { X, Sparkles } from 'lucide-react';
+import { Locale, QuestionPack, TeamSession } from '../types';
+import { getCombinedFlow, getMainQuestions } from '../services/followUpService';
+import { countEntities, getAnonymisedAnswers } from '../services/teamService';
+import { getStrings } from '../i18n';
+
+interface Props {
+  locale: Locale;
+  year: number;
+  pack: QuestionPack;
+  team: TeamSession;
+  onGenerate: () => void;
+  onClose: () => void;
+}
+
+export const TeamView: React.FC<Props> = ({ locale, year, pack, team, onGenerate, onClose }) => {
+  const t = getStrings(locale);
+  const mainQuestions = getMainQuestions(pack.questions);
+  const flow = getCombinedFlow(pack.questions, team.members.map(member => member.answers));
+
+  return (
+    <div className="fixed inset-0 z-[10000] bg-stone-900/95 backdrop-blur-md flex flex-col items-center p-4 md:p-8 fade-in overflow-y-auto custom-scrollbar">
+
+      {/* Controls */}
+      <div className="absolute top-6 right-6 z-50">
+        <button
+          onClick={onClose}
+          className="text-stone-400 hover:text-white transition-colors p-2 flex flex-col items-center gap-1 group"
+        >
+          <X size={32} />
+          <span className="text-[10px] opacity-0 group-hover:opacity-100 transition-opacity">{t.close}</span>
+        </button>
+      </div>
+
+      <div className="w-full max-w-[900px] bg-[#fafafa] shadow-[0_30px_60px_rgba(0,0,0,0.5)] rounded-r-md mt-8 mb-16 px-6 md:px-12 py-10 relative">
+        {/* Cover Edge (Left) */}
+        <div className="absolute left-0 top-0 bottom-0 w-3 bg-stone-300 shadow-xl"></div>
+
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 border-b-2 border-stone-800 pb-4">
+          <div>
+            <div className="font-typewriter text-xs text-stone-500 tracking-widest uppercase">{year} · {pack.title}</div>
+            <h2 className="text-3xl font-retro text-stone-900 tracking-widest mt-1">{t.teamTitle}</h2>
+            <div className="font-serif text-sm text-stone-500 mt-1">
+              {t.teamMembers(team.members.length)}
+              {team.skippedFiles > 0 && <span className="text-stone-400"> · {t.teamSkippedFiles(team.skippedFiles)}</span>}
+            </div>
+          </div>
+          <button
+            onClick={onGenerate}
+            disabled={team.members.length === 0}
+            className="inline-flex items-center gap-2 px-5 py-2 bg-stone-900 text-white font-serif text-sm rounded-sm hover:bg-stone-800 disabled:opacity-40 transition-colors"
+          >
+            <Sparkles className="w-4 h-4" />
+            <span>{t.teamGenerate}</span>
+          </button>
+        </div>
+        <p className="mt-2 font-serif text-xs text-stone-400">{t.teamAnonymousNote}</p>
+
+        {/* Questions */}
+        <div className="mt-8 space-y-10">
+          {flow.map(question => {
+            const answers = getAnonymisedAnswers(team, question);
+            const mentions = countEntities(team, question);
+            const number = mainQuestions.indexOf(question) + 1;
+            return (
+              <div key={question.id} className={question.followUp ? 'pl-6 border-l-2 border-stone-200' : ''}>
+                <div className="flex items-baseline justify-between gap-4">
+                  <h3 className="font-serif font-bold text-stone-800">
+                    {number > 0 && <span className="font-typewriter text-stone-400 mr-2">{number}.</span>}
+                    {question.text}
+                  </h3>
+                  <span className="font-typewriter text-[10px] text-stone-400 tracking-widest whitespace-nowrap">
+                    {t.teamAnsweredCount(answers.length, team.members.length)}
+                  </span>
+                </div>
+
+                {mentions.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 mt-3">
+                    <span className="font-typewriter text-[10px] text-stone-400 tracking-widest uppercase">{t.teamMentions}</span>
+                    {mentions.map(mention => (
+                      <span key={mention.label} className="px-2 py-0.5 bg-[#fef9c3] font-hand text-lg text-stone-700 leading-tight">
+                        {mention.label} <span className="font-typewriter text-xs text-stone-500">×{mention.count}</span>
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                <ul className="mt-3 space-y-2">
+                  {answers.map((answer, index) => (
+                    <li key={index} className="font-hand text-xl text-blue-900 leading-snug border-b border-dashed border-stone-200 pb-1">
+                      {answer}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,21 +1,75 @@
 import React, { useRef, useState } from 'react';
-import { ArrowRight, Feather, Paperclip, Loader2 } from 'lucide-react';
+import { ArrowRight, Feather, Paperclip, Loader2, Library, History, Trash2, ChevronLeft, ChevronRight, Archive, Languages, NotebookText, PencilLine, Users, UsersRound, X } from 'lucide-react';
+import { Locale, QuestionPack, SessionDraft } from '../types';
+import { countAnswered } from '../services/draftService';
+import { getActiveName } from '../services/pairService';
+import { PER_DAY_OPTIONS, getDayNumber, getDaysNeeded, getStreak } from '../services/pacedService';
+import { getMainQuestions } from '../services/followUpService';
+import { UI_STRINGS, getStrings } from '../i18n';
 
 interface Props {
+  locale: Locale;
+  onLocaleChange: (locale: Locale) => void;
+  year: number;
+  onYearChange: (year: number) => void;
+  archiveCount: number;
+  onOpenArchive: () => void;
+  packs: QuestionPack[];
+  activePack: QuestionPack;
+  onSelectPack: (id: string) => void;
+  onImportPack: (file: File) => void;
+  onEditPack: () => void;
+  draft?: SessionDraft | null;
+  onResumeDraft: () => void;
+  onDiscardDraft: () => void;
   onStart: () => void;
-  onFileUpload: (file: File) => void;
+  onStartPaced: (perDay: number) => void;
+  onStartPair: (names: [string, string]) => void;
+  onTeamImport: (files: File[]) => void;
+  onFileUpload: (files: File[]) => void;
+  onJournalImport: (files: File[]) => void;
+  journal?: { entries: number; questions: number } | null; // what the imported journal offers for this year
+  onClearJournal: () => void;
   isProcessing?: boolean;
+  progress?: { done: number; total: number; file?: number; files?: number } | null; // long or multi-file uploads take several model calls
 }
 
-export const Welcome: React.FC<Props> = ({ onStart, onFileUpload, isProcessing }) => {
+export const Welcome: React.FC<Props> = ({ locale, onLocaleChange, year, onYearChange, archiveCount, onOpenArchive, packs, activePack, onSelectPack, onImportPack, onEditPack, draft, onResumeDraft, onDiscardDraft, onStart, onStartPaced, onStartPair, onTeamImport, onFileUpload, onJournalImport, journal, onClearJournal, isProcessing, progress }) => {
+  const t = getStrings(locale);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const packInputRef = useRef<HTMLInputElement>(null);
+  const teamInputRef = useRef<HTMLInputElement>(null);
+  const journalInputRef = useRef<HTMLInputElement>(null);
+  const [pairNames, setPairNames] = useState<[string, string] | null>(null);
   
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    if (files.length > 0) onFileUpload(files);
+    e.target.value = '';
+  };
+
+  const handlePackFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      onFileUpload(e.target.files[0]);
+      onImportPack(e.target.files[0]);
     }
+    // Allow re-importing the same file after fixing it
+    e.target.value = '';
+  };
+
+  const handleTeamFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    if (files.length > 0) onTeamImport(files);
+    e.target.value = '';
+  };
+
+  const handleJournalFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    if (files.length > 0) onJournalImport(files);
+    e.target.value = '';
   };
 
+  const draftPack = draft ? packs.find(p => p.id === draft.packId) : undefined;
+
   return (
     <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-[#fdfbf7] text-stone-800 fade-in relative overflow-hidden">
       
@@ -23,6 +77,21 @@ export const Welcome: React.FC<Props> = ({ onStart, onFileUpload, isProcessing }
       <div className="absolute top-[-20%] left-[-10%] w-[500px] h-[500px] bg-orange-100/40 rounded-full blur-[100px] pointer-events-none"></div>
       <div className="absolute bottom-[-10%] right-[-10%] w-[400px] h-[400px] bg-amber-100/40 rounded-full blur-[80px] pointer-events-none"></div>
 
+      {/* Language Toggle */}
+      <div className="absolute top-6 right-6 z-20 flex items-center gap-2 font-serif text-xs text-stone-400">
+        <Languages className="w-3 h-3" />
+        {(Object.keys(UI_STRINGS) as Locale[]).map(l => (
+          <button
+            key={l}
+            onClick={() => onLocaleChange(l)}
+            disabled={isProcessing}
+            className={`transition-colors ${l === locale ? 'text-stone-800 underline underline-offset-4' : 'hover:text-stone-600'}`}
+          >
+            {UI_STRINGS[l].languageName}
+          </button>
+        ))}
+      </div>
+
       <div className="relative z-10 max-w-lg w-full text-center space-y-10 border-y-2 border-stone-200/50 py-16">
         
         <div className="space-y-6">
@@ -31,7 +100,26 @@ export const Welcome: React.FC<Props> = ({ onStart, onFileUpload, isProcessing }
           </div>
           
           <h1 className="text-5xl md:text-6xl font-retro text-stone-900 tracking-wide leading-tight">
-            2025<br/>年度四十问
+            <span className="inline-flex items-center gap-2">
+              <button
+                onClick={() => onYearChange(year - 1)}
+                disabled={isProcessing}
+                className="text-stone-300 hover:text-stone-700 transition-colors"
+                title={t.previousYear}
+              >
+                <ChevronLeft className="w-6 h-6" />
+              </button>
+              {year}
+              <button
+                onClick={() => onYearChange(year + 1)}
+                disabled={isProcessing}
+                className="text-stone-300 hover:text-stone-700 transition-colors"
+                title={t.nextYear}
+              >
+                <ChevronRight className="w-6 h-6" />
+              </button>
+            </span>
+            <br/>{activePack.title}
           </h1>
           
           <div className="flex items-center justify-center gap-4 text-stone-400 text-sm tracking-widest uppercase font-typewriter">
@@ -44,27 +132,160 @@ export const Welcome: React.FC<Props> = ({ onStart, onFileUpload, isProcessing }
         </div>
 
         <div className="space-y-2 font-serif text-lg text-stone-600 leading-loose max-w-sm mx-auto">
-          <p>这一年，如白驹过隙。</p>
-          <p>在按下“重启”键之前，</p>
-          <p>不妨泡一杯热茶，</p>
-          <p>用一点时间，与自己对话。</p>
+          {t.intro.map(line => <p key={line}>{line}</p>)}
+        </div>
+
+        {/* Question Pack Switcher */}
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-center gap-2">
+            {packs.map(pack => (
+              <button
+                key={pack.id}
+                onClick={() => onSelectPack(pack.id)}
+                disabled={isProcessing}
+                title={pack.description}
+                className={`px-3 py-1 font-serif text-sm rounded-sm border transition-colors ${pack.id === activePack.id ? 'bg-stone-900 text-orange-50 border-stone-900' : 'text-stone-500 border-stone-300 hover:border-stone-500 hover:text-stone-800'}`}
+              >
+                {pack.title} · {getMainQuestions(pack.questions).length}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center justify-center gap-4">
+            <button
+              onClick={onEditPack}
+              disabled={isProcessing}
+              className="inline-flex items-center justify-center gap-2 text-stone-400 hover:text-stone-600 font-serif text-xs transition-colors"
+            >
+              <PencilLine className="w-3 h-3" />
+              <span>{t.editPack}</span>
+            </button>
+            <button
+              onClick={() => packInputRef.current?.click()}
+              disabled={isProcessing}
+              className="inline-flex items-center justify-center gap-2 text-stone-400 hover:text-stone-600 font-serif text-xs transition-colors"
+            >
+              <Library className="w-3 h-3" />
+              <span>{t.importPack}</span>
+            </button>
+          </div>
+          <input
+            type="file"
+            ref={packInputRef}
+            className="hidden"
+            accept=".json,application/json"
+            onChange={handlePackFileChange}
+          />
         </div>
 
         <div className="pt-8 flex flex-col items-center gap-4">
           {isProcessing ? (
-             <div className="flex items-center gap-3 px-8 py-3 bg-stone-100 text-stone-500 rounded-sm">
-                <Loader2 className="w-5 h-5 animate-spin" />
-                <span className="font-serif">正在读取记忆...</span>
+             <div className="flex flex-col items-center gap-2">
+               <div className="flex items-center gap-3 px-8 py-3 bg-stone-100 text-stone-500 rounded-sm">
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                  <span className="font-serif">{t.readingFile}</span>
+               </div>
+               {progress && (progress.total > 1 || (progress.files || 0) > 1) && (
+                 <div className="w-64 space-y-1 fade-in">
+                   <div className="h-1 bg-stone-200 rounded-full overflow-hidden">
+                     <div className="h-full bg-stone-700 transition-all duration-500" style={{ width: `${(progress.done / Math.max(1, progress.total)) * 100}%` }}></div>
+                   </div>
+                   <div className="font-typewriter text-[10px] text-stone-400 tracking-widest text-center">
+                     {progress.files && progress.files > 1 && <span>{t.readingFileOf(progress.file || 1, progress.files)}{progress.total > 1 && ' · '}</span>}
+                     {progress.total > 1 && t.readingFileProgress(progress.done, progress.total)}
+                   </div>
+                 </div>
+               )}
              </div>
           ) : (
             <>
+              {draft && (
+                <div className="w-72 bg-[#fef9c3] px-5 py-4 shadow-md -rotate-1 text-left space-y-3 fade-in">
+                  <div className="font-hand text-xl text-stone-700 leading-none">Unfinished...</div>
+                  <p className="font-serif text-sm text-stone-600 leading-relaxed">
+                    {draft.summary ? t.draftDeveloped : draft.pair ? t.pairDraft(draft.pair.names.join(' & '), getActiveName(draft.pair)) : draft.paced ? t.pacedDraft(getDayNumber(draft.paced), getStreak(draft.paced)) : t.draftProgress(draft.currentIndex + 1, countAnswered(draft, draftPack?.questions), draftPack ? getMainQuestions(draftPack.questions).length : '?')}
+                    {draftPack && <span className="text-stone-400"> · {draftPack.title}</span>}
+                  </p>
+                  <div className="font-typewriter text-[10px] text-stone-400 tracking-widest">
+                    SAVED {t.formatDraftTime(draft.updatedAt)}
+                  </div>
+                  <div className="flex items-center justify-between pt-1">
+                    <button
+                      onClick={onResumeDraft}
+                      className="inline-flex items-center gap-2 font-serif text-stone-900 hover:text-orange-700 transition-colors"
+                    >
+                      <History className="w-4 h-4" />
+                      <span>{t.resumeDraft}</span>
+                    </button>
+                    <button
+                      onClick={onDiscardDraft}
+                      className="inline-flex items-center gap-1 font-serif text-xs text-stone-400 hover:text-red-600 transition-colors"
+                      title={t.discardDraftTitle}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                      <span>{t.discardDraft}</span>
+                    </button>
+                  </div>
+                </div>
+              )}
+
               <button 
                 onClick={onStart}
                 className="group relative inline-flex items-center justify-center px-10 py-4 text-lg font-serif text-white transition-all duration-300 bg-stone-900 rounded-sm hover:bg-stone-800 hover:shadow-2xl hover:-translate-y-1 w-64"
               >
-                <span>开启旅程</span>
+                <span>{draft ? t.startOver : t.start}</span>
                 <ArrowRight className="ml-3 w-5 h-5 group-hover:translate-x-1 transition-transform" />
               </button>
+
+              <div className="flex items-center justify-center gap-2 font-serif text-sm text-stone-400">
+                <span>{t.pacedStartLabel}</span>
+                {PER_DAY_OPTIONS.map(perDay => (
+                  <button
+                    key={perDay}
+                    onClick={() => onStartPaced(perDay)}
+                    title={t.pacedPerDayTitle(getDaysNeeded(activePack.questions, perDay))}
+                    className="px-2 py-0.5 border border-stone-300 rounded-sm text-stone-500 hover:border-stone-500 hover:text-stone-800 transition-colors"
+                  >
+                    {t.pacedPerDay(perDay)}
+                  </button>
+                ))}
+              </div>
+
+              {pairNames ? (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (pairNames.every(name => name.trim())) onStartPair(pairNames);
+                  }}
+                  className="flex items-center justify-center gap-2 font-serif text-sm fade-in"
+                >
+                  {pairNames.map((name, index) => (
+                    <input
+                      key={index}
+                      type="text"
+                      value={name}
+                      autoFocus={index === 0}
+                      onChange={(e) => setPairNames(prev => prev && (index === 0 ? [e.target.value, prev[1]] : [prev[0], e.target.value]))}
+                      placeholder={t.pairNamePlaceholder(index + 1)}
+                      className="w-28 bg-transparent border-b border-stone-300 focus:border-stone-700 outline-none py-1 text-stone-800 text-center"
+                    />
+                  ))}
+                  <button
+                    type="submit"
+                    disabled={!pairNames.every(name => name.trim())}
+                    className="px-3 py-1 bg-stone-900 text-orange-50 rounded-sm disabled:opacity-30"
+                  >
+                    {t.pairBegin}
+                  </button>
+                </form>
+              ) : (
+                <button
+                  onClick={() => setPairNames(['', ''])}
+                  className="inline-flex items-center justify-center gap-2 text-stone-400 hover:text-stone-600 font-serif text-sm transition-colors"
+                >
+                  <Users className="w-4 h-4" />
+                  <span>{t.pairStart}</span>
+                </button>
+              )}
               
               <div className="relative group">
                 <button
@@ -72,23 +293,79 @@ export const Welcome: React.FC<Props> = ({ onStart, onFileUpload, isProcessing }
                   className="inline-flex items-center justify-center gap-2 text-stone-400 hover:text-stone-600 font-serif text-sm transition-colors py-2"
                 >
                   <Paperclip className="w-4 h-4" />
-                  <span>上传已填文件 (PDF/Text)</span>
+                  <span>{t.uploadFile}</span>
                 </button>
                 <input 
                   type="file" 
                   ref={fileInputRef} 
                   className="hidden" 
-                  accept=".pdf,.txt,.md,.json,image/*" 
+                  accept=".pdf,.txt,.md,.docx,.html,.htm,.csv,.json,image/*" 
+                  multiple
                   onChange={handleFileChange}
                 />
               </div>
+
+              <button
+                onClick={() => teamInputRef.current?.click()}
+                title={t.teamImportTitle}
+                className="inline-flex items-center justify-center gap-2 text-stone-400 hover:text-stone-600 font-serif text-sm transition-colors"
+              >
+                <UsersRound className="w-4 h-4" />
+                <span>{t.teamImport}</span>
+              </button>
+              <input
+                type="file"
+                ref={teamInputRef}
+                className="hidden"
+                accept=".json,.csv,application/json,text/csv"
+                multiple
+                onChange={handleTeamFilesChange}
+              />
+
+              {journal ? (
+                <span className="inline-flex items-center justify-center gap-2 text-stone-500 font-serif text-sm">
+                  <NotebookText className="w-4 h-4" />
+                  <span>{t.journalLoaded(journal.entries, year, journal.questions)}</span>
+                  <button onClick={onClearJournal} title={t.journalClear} className="text-stone-300 hover:text-stone-700 transition-colors">
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ) : (
+                <button
+                  onClick={() => journalInputRef.current?.click()}
+                  title={t.journalImportTitle}
+                  className="inline-flex items-center justify-center gap-2 text-stone-400 hover:text-stone-600 font-serif text-sm transition-colors"
+                >
+                  <NotebookText className="w-4 h-4" />
+                  <span>{t.journalImport}</span>
+                </button>
+              )}
+              {/* A whole folder: an unzipped Day One export or a Markdown vault */}
+              <input
+                type="file"
+                ref={journalInputRef}
+                className="hidden"
+                {...{ webkitdirectory: '' }}
+                multiple
+                onChange={handleJournalFilesChange}
+              />
+
+              {archiveCount > 0 && (
+                <button
+                  onClick={onOpenArchive}
+                  className="inline-flex items-center justify-center gap-2 text-stone-400 hover:text-stone-600 font-serif text-sm transition-colors"
+                >
+                  <Archive className="w-4 h-4" />
+                  <span>{t.pastYears(archiveCount)}</span>
+                </button>
+              )}
             </>
           )}
         </div>
       </div>
       
       <p className="absolute bottom-8 text-[10px] text-stone-300 font-typewriter tracking-widest uppercase">
-        40 Questions Review 2025 · Powered by Gemini
+        40 Questions Review {year} · Powered by Gemini
       </p>
     </div>
   );
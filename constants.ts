@@ -1,4 +1,4 @@
-import { Question } from './types';
+import { Question, QuestionPack } from './types';
 
 export const QUESTIONS: Question[] = [
   // PART 1
@@ -6,7 +6,7 @@ export const QUESTIONS: Question[] = [
   { id: 2, part: 1, text: "你坚持年初时和自己许下的约定了吗？", category: "承诺" },
   { id: 3, part: 1, text: "你身边有人生孩子了吗？", category: "生命" },
   { id: 4, part: 1, text: "你身边有人去世了吗？", category: "离别" },
-  { id: 5, part: 1, text: "你去了哪些城市/州/国家？", category: "足迹" },
+  { id: 5, part: 1, text: "你去了哪些城市/州/国家？", category: "足迹", answerType: "list" },
   { id: 6, part: 1, text: "明年你想要拥有哪些今年没有的东西？", category: "愿望" },
   { id: 7, part: 1, text: "今年的哪个或哪些日子会铭刻在你的记忆中，为什么？", category: "时刻" },
   { id: 8, part: 1, text: "你今年最大的成就是什么？", category: "成就" },
@@ -20,8 +20,16 @@ export const QUESTIONS: Question[] = [
   { id: 14, part: 2, text: "谁的行为令你感到震惊？", category: "触动" },
   { id: 15, part: 2, text: "你大部分的钱都花到哪里去了？", category: "财务" },
   { id: 16, part: 2, text: "有什么事让你感到超级、超级、超级兴奋？", category: "激情" },
-  { id: 17, part: 2, text: "哪首歌会永远让你想起这一年？", category: "旋律" },
-  { id: 18, part: 2, text: "与去年的这个时候相比，你是：感到更快乐还是更悲伤了？变得更瘦还是更胖了？变得更富还是更穷了？", category: "变化" },
+  { id: 17, part: 2, text: "哪首歌会永远让你想起这一年？", category: "旋律", answerType: "short" },
+  {
+    id: 18, part: 2, text: "与去年的这个时候相比，你是：感到更快乐还是更悲伤了？变得更瘦还是更胖了？变得更富还是更穷了？", category: "变化",
+    answerType: "fields",
+    fields: [
+      { id: "mood", label: "心情", type: "choice", options: ["更快乐", "更悲伤"] },
+      { id: "body", label: "体重", type: "choice", options: ["更瘦", "更胖"] },
+      { id: "wealth", label: "钱包", type: "choice", options: ["更富", "更穷"] },
+    ],
+  },
   { id: 19, part: 2, text: "你希望自己能做得更多的是什么？", category: "遗憾" },
   { id: 20, part: 2, text: "你希望自己能做得更少的是什么？", category: "减法" },
 
@@ -29,10 +37,10 @@ export const QUESTIONS: Question[] = [
   { id: 21, part: 3, text: "你是如何度过节假日的？", category: "闲暇" },
   { id: 22, part: 3, text: "你今年坠入爱河了吗？", category: "情感" },
   { id: 23, part: 3, text: "你是否有讨厌某个你去年此时不觉得讨厌的人呢？", category: "人际" },
-  { id: 24, part: 3, text: "你最喜欢的电视节目是什么？", category: "娱乐" },
-  { id: 25, part: 3, text: "你读过最好的一本书是什么？", category: "阅读" },
-  { id: 26, part: 3, text: "你今年发现的最好听的一首歌是什么？", category: "发现" },
-  { id: 27, part: 3, text: "你今年看过最喜欢的一部电影是什么？", category: "光影" },
+  { id: 24, part: 3, text: "你最喜欢的电视节目是什么？", category: "娱乐", answerType: "short" },
+  { id: 25, part: 3, text: "你读过最好的一本书是什么？", category: "阅读", answerType: "short" },
+  { id: 26, part: 3, text: "你今年发现的最好听的一首歌是什么？", category: "发现", answerType: "short" },
+  { id: 27, part: 3, text: "你今年看过最喜欢的一部电影是什么？", category: "光影", answerType: "short" },
   { id: 28, part: 3, text: "你今年吃过最好吃的一顿饭是什么？", category: "味蕾" },
   { id: 29, part: 3, text: "有什么是你想要且得到了的？", category: "收获" },
   { id: 30, part: 3, text: "有什么是你想要却没有得到的？", category: "未得" },
@@ -48,4 +56,149 @@ export const QUESTIONS: Question[] = [
   { id: 38, part: 4, text: "在你新认识的人之中，谁是最好的？", category: "相遇" },
   { id: 39, part: 4, text: "今年你学到了什么宝贵的人生经验？", category: "成长" },
   { id: 40, part: 4, text: "能够总结你这一年的一句话是什么？", category: "总结" },
-];
\ No newline at end of file
+
+  // FOLLOW-UPS (asked right after their parent when the answer is a yes)
+  { id: 401, part: 1, text: "TA 留给你的是什么？有没有想对 TA 说的话？", category: "离别", followUp: { parentId: 4, when: "yes" } },
+  { id: 1101, part: 2, text: "那段时间你是怎么度过的？现在身体还好吗？", category: "健康", followUp: { parentId: 11, when: "yes" } },
+  { id: 2201, part: 3, text: "TA 是怎样的人？你们是怎么相遇的？", category: "情感", followUp: { parentId: 22, when: "yes" } },
+];
+
+export const DEFAULT_QUESTION_PACK: QuestionPack = {
+  id: "year-review-40",
+  title: "年度四十问",
+  description: "用四十个问题，回望完整的一年。",
+  locale: "zh-CN",
+  version: "1.0.0",
+  parts: [
+    { id: 1, title: "探索 · 启程" },
+    { id: 2, title: "得失 · 感悟" },
+    { id: 3, title: "生活 · 喜好" },
+    { id: 4, title: "自我 · 未来" },
+  ],
+  categories: [...new Set(QUESTIONS.map(q => q.category))],
+  questions: QUESTIONS,
+};
+
+const MIDYEAR_QUESTIONS: Question[] = [
+  // PART 1
+  { id: 1, part: 1, text: "这半年你做了哪些之前从未做过的事？", category: "探索" },
+  {
+    id: 2, part: 1, text: "年初和自己许下的约定，完成了多少？", category: "承诺",
+    answerType: "scale", scale: { min: 1, max: 5, minLabel: "几乎没有", maxLabel: "全部做到" },
+  },
+  { id: 3, part: 1, text: "你去了哪些城市/州/国家？", category: "足迹", answerType: "list" },
+  { id: 4, part: 1, text: "这半年你最大的成就是什么？", category: "成就" },
+  { id: 5, part: 1, text: "这半年你遇到的最大困难是什么？", category: "挑战" },
+  { id: 6, part: 1, text: "哪一天让你印象最深，为什么？", category: "时刻" },
+  { id: 7, part: 1, text: "你大部分的钱都花到哪里去了？", category: "财务" },
+  { id: 8, part: 1, text: "哪首歌会让你想起这半年？", category: "旋律", answerType: "short" },
+  { id: 9, part: 1, text: "你读过最好的一本书是什么？", category: "阅读", answerType: "short" },
+  { id: 10, part: 1, text: "你吃过最好吃的一顿饭是什么？", category: "味蕾" },
+
+  // PART 2
+  { id: 11, part: 2, text: "与年初相比，你是感到更快乐还是更悲伤了？", category: "变化", answerType: "choice", options: ["更快乐", "更悲伤"] },
+  { id: 12, part: 2, text: "下半年你希望自己能做得更多的是什么？", category: "遗憾" },
+  { id: 13, part: 2, text: "下半年你希望自己能做得更少的是什么？", category: "减法" },
+  { id: 14, part: 2, text: "是什么让你保持理智？", category: "支撑" },
+  { id: 15, part: 2, text: "你想念哪些人？", category: "思念" },
+  { id: 16, part: 2, text: "在你新认识的人之中，谁是最好的？", category: "相遇" },
+  { id: 17, part: 2, text: "这半年你学到了什么宝贵的经验？", category: "成长" },
+  { id: 18, part: 2, text: "年底之前，你最想完成的一件事是什么？", category: "愿望" },
+  { id: 19, part: 2, text: "还有什么事如果在年底前发生，会让你这一年无比满足？", category: "期待" },
+  { id: 20, part: 2, text: "能够总结你这半年的一句话是什么？", category: "总结" },
+];
+
+export const MIDYEAR_QUESTION_PACK: QuestionPack = {
+  id: "midyear-checkin-20",
+  title: "年中二十问",
+  description: "二十个问题，在年中停下来看看自己。",
+  locale: "zh-CN",
+  version: "1.0.0",
+  parts: [
+    { id: 1, title: "回望 · 上半年" },
+    { id: 2, title: "调整 · 下半年" },
+  ],
+  categories: [...new Set(MIDYEAR_QUESTIONS.map(q => q.category))],
+  questions: MIDYEAR_QUESTIONS,
+};
+
+const ENGLISH_QUESTIONS: Question[] = [
+  // PART 1
+  { id: 1, part: 1, text: "What did you do this year that you'd never done before?", category: "Exploring" },
+  { id: 2, part: 1, text: "Did you keep the promises you made to yourself at the start of the year?", category: "Promises" },
+  { id: 3, part: 1, text: "Did anyone close to you have a baby?", category: "New Life" },
+  { id: 4, part: 1, text: "Did anyone close to you pass away?", category: "Farewells" },
+  { id: 5, part: 1, text: "Which cities, states or countries did you visit?", category: "Footprints", answerType: "list" },
+  { id: 6, part: 1, text: "What would you like to have next year that you lacked this year?", category: "Wishes" },
+  { id: 7, part: 1, text: "Which day or days from this year will stay etched in your memory, and why?", category: "Moments" },
+  { id: 8, part: 1, text: "What was your biggest achievement of the year?", category: "Achievement" },
+  { id: 9, part: 1, text: "What was your biggest failure?", category: "Setbacks" },
+  { id: 10, part: 1, text: "What other struggles did you face?", category: "Challenges" },
+
+  // PART 2
+  { id: 11, part: 2, text: "Were you ill or injured this year?", category: "Health" },
+  { id: 12, part: 2, text: "What was the best thing you bought?", category: "Things" },
+  { id: 13, part: 2, text: "Whose behaviour deserved celebrating?", category: "Others" },
+  { id: 14, part: 2, text: "Whose behaviour shocked you?", category: "Shocks" },
+  { id: 15, part: 2, text: "Where did most of your money go?", category: "Money" },
+  { id: 16, part: 2, text: "What did you get really, really, really excited about?", category: "Passion" },
+  { id: 17, part: 2, text: "What song will always remind you of this year?", category: "Soundtrack", answerType: "short" },
+  {
+    id: 18, part: 2, text: "Compared with this time last year, are you happier or sadder? Thinner or fatter? Richer or poorer?", category: "Change",
+    answerType: "fields",
+    fields: [
+      { id: "mood", label: "Mood", type: "choice", options: ["happier", "sadder"] },
+      { id: "body", label: "Body", type: "choice", options: ["thinner", "fatter"] },
+      { id: "wealth", label: "Wallet", type: "choice", options: ["richer", "poorer"] },
+    ],
+  },
+  { id: 19, part: 2, text: "What do you wish you'd done more of?", category: "Regrets" },
+  { id: 20, part: 2, text: "What do you wish you'd done less of?", category: "Less" },
+
+  // PART 3
+  { id: 21, part: 3, text: "How did you spend the holidays?", category: "Leisure" },
+  { id: 22, part: 3, text: "Did you fall in love this year?", category: "Love" },
+  { id: 23, part: 3, text: "Is there anyone you dislike now that you didn't this time last year?", category: "People" },
+  { id: 24, part: 3, text: "What was your favourite TV show?", category: "Entertainment", answerType: "short" },
+  { id: 25, part: 3, text: "What was the best book you read?", category: "Reading", answerType: "short" },
+  { id: 26, part: 3, text: "What was the best song you discovered this year?", category: "Discovery", answerType: "short" },
+  { id: 27, part: 3, text: "What was your favourite film this year?", category: "Film", answerType: "short" },
+  { id: 28, part: 3, text: "What was the best meal you had this year?", category: "Food" },
+  { id: 29, part: 3, text: "What did you want and get?", category: "Gains" },
+  { id: 30, part: 3, text: "What did you want and not get?", category: "Missed Out" },
+
+  // PART 4
+  { id: 31, part: 4, text: "What did you do on your birthday?", category: "Rituals" },
+  { id: 32, part: 4, text: "What one thing that didn't happen would have made your year immeasurably more satisfying?", category: "Hopes" },
+  { id: 33, part: 4, text: "How would you describe your personal style this year?", category: "Style" },
+  { id: 34, part: 4, text: "What kept you sane?", category: "Anchors" },
+  { id: 35, part: 4, text: "Which celebrity or public figure did you admire most?", category: "Idols" },
+  { id: 36, part: 4, text: "Which political issue stirred you the most?", category: "Views" },
+  { id: 37, part: 4, text: "Who did you miss?", category: "Missing" },
+  { id: 38, part: 4, text: "Who was the best new person you met?", category: "Encounters" },
+  { id: 39, part: 4, text: "What valuable life lesson did you learn this year?", category: "Growth" },
+  { id: 40, part: 4, text: "What one sentence sums up your year?", category: "Summary" },
+
+  // FOLLOW-UPS
+  { id: 401, part: 1, text: "What did they leave you with? Is there anything you'd like to tell them?", category: "Farewells", followUp: { parentId: 4, when: "yes" } },
+  { id: 1101, part: 2, text: "How did you get through it? Are you well now?", category: "Health", followUp: { parentId: 11, when: "yes" } },
+  { id: 2201, part: 3, text: "Who are they, and how did you meet?", category: "Love", followUp: { parentId: 22, when: "yes" } },
+];
+
+export const ENGLISH_QUESTION_PACK: QuestionPack = {
+  id: "year-review-40-en",
+  title: "40 Questions",
+  description: "Forty questions to look back on the whole year.",
+  locale: "en",
+  version: "1.0.0",
+  parts: [
+    { id: 1, title: "Exploring · Setting Out" },
+    { id: 2, title: "Gains · Reflections" },
+    { id: 3, title: "Living · Loving" },
+    { id: 4, title: "Self · Future" },
+  ],
+  categories: [...new Set(ENGLISH_QUESTIONS.map(q => q.category))],
+  questions: ENGLISH_QUESTIONS,
+};
+
+export const BUILTIN_QUESTION_PACKS: QuestionPack[] = [DEFAULT_QUESTION_PACK, MIDYEAR_QUESTION_PACK, ENGLISH_QUESTION_PACK];
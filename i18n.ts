@@ -0,0 +1,522 @@
+import { AnswerStatus, ComparisonStatus, ExtractionMethod, Locale, SummaryTheme } from './types';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const zhCN = {
+  languageName: '中文',
+  close: '关闭',
+  save: '保存',
+
+  // Welcome
+  previousYear: '上一年',
+  nextYear: '下一年',
+  intro: ['这一年，如白驹过隙。', '在按下“重启”键之前，', '不妨泡一杯热茶，', '用一点时间，与自己对话。'],
+  importPack: '导入题库 (JSON)',
+  editPack: '编辑题目',
+  readingFile: '正在读取记忆...',
+  readingFileProgress: (done: number, total: number) => `第 ${Math.min(done + 1, total)} / ${total} 部分`,
+  draftDeveloped: '上次的年度胶卷已冲洗好',
+  draftProgress: (position: number, answered: number, total: number | string) =>
+    `上次写到第 ${position} 题，已写 ${answered} / ${total} 题`,
+  formatDraftTime: (timestamp: number) => {
+    const d = new Date(timestamp);
+    return `${d.getMonth() + 1}月${d.getDate()}日 ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+  },
+  resumeDraft: '继续上次的回忆',
+  discardDraftTitle: '丢弃草稿',
+  discardDraft: '丢弃',
+  draftPackMissing: '这份草稿用的题库已经不在了，无法继续。草稿已保留。',
+  startOver: '重新开始',
+  start: '开启旅程',
+  uploadFile: '上传已填文件或存档 (PDF/Word/网页/Text/CSV/JSON)',
+  pastYears: (count: number) => `往年回顾 (${count})`,
+
+  // Question flow
+  previousQuestion: '上一题',
+  questionIndex: '目录',
+  flagQuestion: '稍后再看',
+  unflagQuestion: '取消标记',
+  followUpTag: ' · 追问',
+  writeHere: '在此书写...',
+  inspireMe: '给我灵感',
+  useHint: '放进回答',
+  declinedNote: '你选择了不想回答这一题。想写的话，直接写下就好。',
+  skipQuestion: '跳过此题',
+  declineQuestion: '不想回答',
+  declineHint: '这一题不会出现在总结里',
+  finish: '完成回忆',
+  flowEmpty: '这里没有需要回答的问题。',
+  next: '继续',
+  removeItem: '删除',
+  addItem: '添加',
+  addItemPlaceholder: '添加一项，回车确认...',
+  attachPhoto: '添加照片',
+  drawSketch: '画一张',
+  attachSketch: '贴上这张画',
+  clearSketch: '擦掉重画',
+  removeAttachment: '移除',
+  photoReadFailed: '无法读取这张图片',
+
+  // Navigator and review
+  legendAnswered: '已写',
+  legendSkipped: '跳过',
+  legendDeclined: '不想回答',
+  legendEmpty: '未写',
+  legendFlagged: '稍后再看',
+  reviewTitle: '交卷之前',
+  reviewCount: (answered: number, total: number, declined: number) =>
+    `已写 ${answered} / ${total} 题${declined > 0 ? `，${declined} 题不想回答` : ''}`,
+  flaggedHeading: '标记了稍后再看',
+  unansweredHeading: '还没有写的题',
+  allAnswered: '每一题都写好了。',
+  backToEditing: '返回修改',
+  confirmGenerate: '确认，冲洗胶卷',
+
+  answerStatus: {
+    answered: '已写',
+    skipped: '跳过',
+    declined: '不想回答',
+    imported: '导入',
+    'ai-assisted': '灵感辅助',
+  } as Record<AnswerStatus, string>,
+  editedAfterImport: '导入后修改过',
+
+  // App
+  analyzing: '正在冲洗你的年度胶卷...',
+  packImportFailed: (message: string) => `题库导入失败：${message}`,
+  sessionOpenFailed: (message: string) => `无法打开该存档：${message}`,
+  sessionPackMissing: (packId: string) => `无法打开该存档：找不到它用的题库（${packId}），文件里也没有附带。`,
+  replaceDraftConfirm: '打开这个存档会替换掉还没写完的草稿，确定吗？',
+  fileReadFailed: '抱歉，无法读取该文件或未在文件中找到回答。请确保文件包含清晰的文字。',
+
+  // Summary board and notebook
+  saveFailed: '保存失败',
+  saveImage: '保存图片',
+  saveImageFailed: '保存图片失败，请重试',
+  exportSession: '导出存档',
+  compareYears: '和往年对比',
+  continueEditing: '接着编辑这一年',
+  previousPage: '上一页',
+  nextPage: '下一页',
+  answerPhotos: '答案里的照片',
+  pinToBoard: '钉到板上',
+  writingStats: '写作数据',
+
+  // Archive
+  archiveTitle: '往年回顾',
+  archiveEmpty: '还没有存档。完成一次回顾后，它会自动收进这里。',
+  confirmDeleteArchive: (year: number, title: string) => `确定要删除 ${year} 年的「${title}」吗？此操作无法撤销。`,
+  answeredOf: (answered: number, total?: number) => `已写 ${answered}${total !== undefined ? ` / ${total}` : ''} 题`,
+  open: '打开',
+  remove: '删除',
+
+  // Comparison
+  comparisonStatus: {
+    unchanged: '未变',
+    changed: '变化',
+    new: '新写',
+    dropped: '空缺',
+    unanswered: '未答',
+  } as Record<ComparisonStatus, string>,
+  differences: (count: number) => `${count} 处不同`,
+  onlyChanges: '只看变化',
+  writingComparison: '正在回看这两年...',
+  writeComparison: '写一段“这一年变了什么”',
+  identicalYears: '两年的回答一模一样。',
+
+  // Pack editor
+  packEditorTitle: '编辑题目',
+  packTitle: '题库名称',
+  personalPackTitle: (title: string) => `${title}（我的）`,
+  builtinPackNote: '内置题库不会被改动，保存后会成为你自己的题库。',
+  partTitlePlaceholder: '章节标题',
+  questionTextPlaceholder: '题目',
+  categoryPlaceholder: '分类',
+  moveUp: '上移',
+  moveDown: '下移',
+  removeQuestion: '删除此题',
+  removePart: '删除章节',
+  addQuestion: '添加题目',
+  addPart: '添加章节',
+  newPartTitle: (id: number) => `第 ${id} 章`,
+  summaryCard: '总结卡片',
+  summaryThemes: {
+    journey: '旅途',
+    emotions: '心绪',
+    tastes: '趣味',
+    future: '未来',
+  } as Record<SummaryTheme, string>,
+  autoTheme: (theme?: string) => (theme ? `自动（${theme}）` : '自动（不进卡片）'),
+  cancel: '取消',
+  savePack: '保存题库',
+
+  // Writing stats
+  formatDuration: (ms: number) => {
+    const seconds = Math.round(ms / 1000);
+    if (seconds < 60) return `${seconds} 秒`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes} 分 ${seconds % 60} 秒`;
+    return `${Math.floor(minutes / 60)} 小时 ${minutes % 60} 分`;
+  },
+  yearInNumbers: '年度数据',
+  statsLocalNote: '这些数据只在你的设备上计算和保存，不会上传。',
+  statsTotalTime: '总用时',
+  statsChars: '字数',
+  statsEdits: '修改',
+  statsHints: '灵感',
+  statsTime: '用时',
+  hardestHeading: '最难下笔的题',
+  statsEmpty: '还没有记录到写作数据。',
+  pinStatsCard: '把“年度数据”贴到板上',
+  statsCardLines: (time: string, chars: number, edits: number, hints: number) => [
+    `写了 ${chars} 字`,
+    `用时 ${time}`,
+    `改了 ${edits} 次`,
+    `求助灵感 ${hints} 次`,
+  ],
+  statsCardHardest: (category: string) => `最难写的是「${category}」`,
+
+  // Paced mode
+  pacedStartLabel: '或者慢慢来，每天写',
+  pacedPerDay: (count: number) => `${count} 题`,
+  pacedPerDayTitle: (days: number) => `大约 ${days} 天写完`,
+  pacedDraft: (day: number, streak: number) => `慢慢写 · 第 ${day} 天 · 连续 ${streak} 天`,
+  pacedDayOf: (day: number, total: number) => `第 ${day} / ${total} 天`,
+  pacedStreak: (days: number) => `连续 ${days} 天`,
+  pacedAnswered: (answered: number, total: number) => `已经写了 ${answered} / ${total} 题`,
+  pacedTodayHeading: '今天的问题',
+  pacedStartToday: '开始今天的问题',
+  pacedDoneToday: '今天的已经写完了，明天见。',
+  pacedKeepGoing: '再多写几题',
+  pacedEndDate: '截止日期',
+  pacedEndDateNote: '所有问题写完，或者过了截止日期，就会自动生成年度总结。',
+  pacedGenerateNow: '现在就生成总结',
+  pacedReminder: '每日提醒',
+  pacedReminderUnsupported: '这个浏览器不支持通知提醒。',
+  pacedReminderDenied: '没有获得通知权限，可以在浏览器设置里打开。',
+  reminderTitle: '今天的问题准备好了',
+  reminderBody: (count: number) => `还有 ${count} 个问题等你慢慢写。`,
+
+  // Pair mode
+  pairStart: '两个人一起写',
+  pairNamePlaceholder: (n: number) => `第 ${n} 个人的名字`,
+  pairBegin: '开始',
+  pairDraft: (names: string, name: string) => `${names} · 轮到 ${name}`,
+  pairTurn: (name: string) => `${name} 在写`,
+  pairHandoffTitle: (name: string) => `轮到 ${name} 了`,
+  pairHandoffNote: (first: string) => `${first} 的回答已经收好，不会再显示。把设备交给对方吧。`,
+  pairHandoffStart: '开始写',
+
+  // Team retro
+  exportAnswers: '下载回答文件',
+  teamImport: '团队回顾：导入大家的回答',
+  teamImportTitle: '一次选中所有成员下载的回答文件，或一张每行一人的表格 (CSV)',
+  teamTitle: '团队回顾',
+  teamMembers: (n: number) => `${n} 位成员`,
+  teamSkippedFiles: (n: number) => `${n} 个文件不是这套问题的回答，已跳过`,
+  teamAnonymousNote: '回答已匿名并打乱顺序；团队总结不会引用或点名任何人。',
+  teamAnsweredCount: (answered: number, total: number) => `${answered}/${total} 人回答`,
+  teamMentions: '多人提到',
+  teamGenerate: '生成团队总结',
+  teamNoFiles: '这些文件里没有找到回答文件。',
+  teamImportFailed: '读取这些文件时出错，请重试。',
+
+  // Import review
+  importReviewTitle: '核对导入的回答',
+  importReviewCount: (found: number, total: number) => `从文件里找到 ${found} / ${total} 个回答`,
+  importReviewNote: '对一对每个回答是不是放在了正确的问题下面。可以直接修改、移到别的问题，或者清空。',
+  importMethod: {
+    regex: '按编号读取',
+    llm: 'AI 识别',
+    csv: '按表格读取',
+    fallback: '整段放入',
+  } as Record<ExtractionMethod, string>,
+  importConfidence: (percent: number) => `把握 ${percent}%`,
+  importSource: '原文',
+  importMoveTo: '移到…',
+  importClear: '清空',
+  importNoAnswer: '没有找到回答',
+  importCancel: '放弃导入',
+  importContinue: '继续写',
+  importGenerate: '直接生成总结',
+  importConflictsHeading: (n: number) => `${n} 个问题在不同文件里答得不一样`,
+  importConflictsNote: '选一个保留，两个都要，或者都不要。',
+  importKeepThis: '保留这个',
+  importKeepBoth: '都保留',
+  importKeepNeither: '都不要',
+  importConflictsPending: (n: number) => `还有 ${n} 处不一致没有选`,
+  readingFileOf: (file: number, files: number) => `第 ${file} / ${files} 个文件`,
+
+  // Spreadsheets
+  exportCsv: '下载表格 (CSV)',
+  exportArchiveCsv: '把这套问题的历年回答导出成一张表格 (CSV)',
+
+  // Journal
+  journalImport: '从日记里找素材',
+  journalImportTitle: '选择 Day One 导出后解压的文件夹，或一个按日期命名的 Markdown 日记文件夹（如 Obsidian）',
+  journalLoaded: (entries: number, year: number, questions: number) => `已读入 ${year} 年的 ${entries} 篇日记，${questions} 个问题旁有摘录`,
+  journalNoEntries: (year: number) => `这个文件夹里没有找到 ${year} 年的日记。`,
+  journalReadFailed: '读取日记时出了问题，请确认选的是 Day One 导出或 Markdown 日记文件夹。',
+  journalClear: '不再显示日记摘录',
+  journalHeading: '日记里的片段',
+  journalUse: '放进回答',
+  journalDismiss: '不相关',
+  journalDraft: '用 AI 整理成草稿',
+  journalDrafting: '正在整理…',
+  journalDraftFailed: '没能整理成草稿，稍后再试。',
+  journalAccept: '采用',
+  journalReject: '不要',
+};
+
+export type UiStrings = typeof zhCN;
+
+const en: UiStrings = {
+  languageName: 'English',
+  close: 'Close',
+  save: 'Save',
+
+  previousYear: 'Previous year',
+  nextYear: 'Next year',
+  intro: ['Another year has slipped by.', 'Before you press “restart”,', 'make yourself a cup of tea', 'and take a moment to talk with yourself.'],
+  importPack: 'Import question pack (JSON)',
+  editPack: 'Edit questions',
+  readingFile: 'Reading your memories...',
+  readingFileProgress: (done: number, total: number) => `Part ${Math.min(done + 1, total)} of ${total}`,
+  draftDeveloped: 'Your last year in review is ready',
+  draftProgress: (position: number, answered: number, total: number | string) =>
+    `Stopped at question ${position}, ${answered} / ${total} answered`,
+  formatDraftTime: (timestamp: number) => {
+    const d = new Date(timestamp);
+    return `${d.toLocaleDateString('en', { month: 'short', day: 'numeric' })} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+  },
+  resumeDraft: 'Continue where you left off',
+  discardDraftTitle: 'Discard draft',
+  discardDraft: 'Discard',
+  draftPackMissing: "The question pack this draft was written with is no longer available, so it can't be continued. The draft has been kept.",
+  startOver: 'Start over',
+  start: 'Begin',
+  uploadFile: 'Upload a filled-in file or saved session (PDF/Word/HTML/Text/CSV/JSON)',
+  pastYears: (count: number) => `Past years (${count})`,
+
+  previousQuestion: 'Back',
+  questionIndex: 'Index',
+  flagQuestion: 'Revisit later',
+  unflagQuestion: 'Remove flag',
+  followUpTag: ' · follow-up',
+  writeHere: 'Write here...',
+  inspireMe: 'Inspire me',
+  useHint: 'Add to answer',
+  declinedNote: "You chose not to answer this one. If you change your mind, just start writing.",
+  skipQuestion: 'Skip',
+  declineQuestion: 'Rather not say',
+  declineHint: 'This question will be left out of the summary',
+  finish: 'Finish',
+  flowEmpty: 'There are no questions to answer here.',
+  next: 'Next',
+  removeItem: 'Remove',
+  addItem: 'Add',
+  addItemPlaceholder: 'Add an item, press Enter...',
+  attachPhoto: 'Add a photo',
+  drawSketch: 'Draw a sketch',
+  attachSketch: 'Attach sketch',
+  clearSketch: 'Clear',
+  removeAttachment: 'Remove',
+  photoReadFailed: 'Could not read this image',
+
+  legendAnswered: 'Answered',
+  legendSkipped: 'Skipped',
+  legendDeclined: 'Rather not say',
+  legendEmpty: 'Not yet',
+  legendFlagged: 'Revisit later',
+  reviewTitle: 'Before you hand it in',
+  reviewCount: (answered: number, total: number, declined: number) =>
+    `${answered} / ${total} answered${declined > 0 ? `, ${declined} left private` : ''}`,
+  flaggedHeading: 'Flagged to revisit',
+  unansweredHeading: 'Not answered yet',
+  allAnswered: 'Every question is answered.',
+  backToEditing: 'Back to editing',
+  confirmGenerate: 'Develop my year',
+
+  answerStatus: {
+    answered: 'Answered',
+    skipped: 'Skipped',
+    declined: 'Rather not say',
+    imported: 'Imported',
+    'ai-assisted': 'AI-assisted',
+  },
+  editedAfterImport: 'Edited after import',
+
+  analyzing: 'Developing your year...',
+  packImportFailed: (message: string) => `Could not import the question pack: ${message}`,
+  sessionOpenFailed: (message: string) => `Could not open this session file: ${message}`,
+  sessionPackMissing: (packId: string) => `Could not open this session file: its question pack (${packId}) isn't available here and isn't included in the file.`,
+  replaceDraftConfirm: 'Opening this session replaces your unfinished draft. Continue?',
+  fileReadFailed: "Sorry, this file couldn't be read or no answers were found in it. Please make sure it contains legible text.",
+
+  saveFailed: 'Save failed',
+  saveImage: 'Save image',
+  saveImageFailed: 'Could not save the image, please try again',
+  exportSession: 'Export session',
+  compareYears: 'Compare with earlier years',
+  continueEditing: 'Keep editing this year',
+  previousPage: 'Previous page',
+  nextPage: 'Next page',
+  answerPhotos: 'From your answers',
+  pinToBoard: 'Pin to the board',
+  writingStats: 'Writing stats',
+
+  archiveTitle: 'Past Years',
+  archiveEmpty: 'Nothing archived yet. Finished reviews are kept here automatically.',
+  confirmDeleteArchive: (year: number, title: string) => `Delete “${title}” for ${year}? This can't be undone.`,
+  answeredOf: (answered: number, total?: number) => `${answered}${total !== undefined ? ` / ${total}` : ''} answered`,
+  open: 'Open',
+  remove: 'Delete',
+
+  comparisonStatus: {
+    unchanged: 'Same',
+    changed: 'Changed',
+    new: 'New',
+    dropped: 'Dropped',
+    unanswered: 'Unanswered',
+  },
+  differences: (count: number) => `${count} differences`,
+  onlyChanges: 'Only changes',
+  writingComparison: 'Looking back at both years...',
+  writeComparison: 'Write “what changed this year”',
+  identicalYears: 'Your answers are identical in both years.',
+
+  packEditorTitle: 'Edit questions',
+  packTitle: 'Pack title',
+  personalPackTitle: (title: string) => `${title} (mine)`,
+  builtinPackNote: 'Built-in packs stay as they are; saving makes this your own pack.',
+  partTitlePlaceholder: 'Part title',
+  questionTextPlaceholder: 'Question',
+  categoryPlaceholder: 'Category',
+  moveUp: 'Move up',
+  moveDown: 'Move down',
+  removeQuestion: 'Remove question',
+  removePart: 'Remove part',
+  addQuestion: 'Add question',
+  addPart: 'Add part',
+  newPartTitle: (id: number) => `Part ${id}`,
+  summaryCard: 'Summary card',
+  summaryThemes: {
+    journey: 'Journey',
+    emotions: 'Emotions',
+    tastes: 'Tastes',
+    future: 'Future',
+  },
+  autoTheme: (theme?: string) => (theme ? `Auto (${theme})` : 'Auto (no card)'),
+  cancel: 'Cancel',
+  savePack: 'Save pack',
+
+  formatDuration: (ms: number) => {
+    const seconds = Math.round(ms / 1000);
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  },
+  yearInNumbers: 'Year in Numbers',
+  statsLocalNote: 'Computed and kept on this device only; nothing is uploaded.',
+  statsTotalTime: 'Total time',
+  statsChars: 'Characters',
+  statsEdits: 'Edits',
+  statsHints: 'Hints',
+  statsTime: 'Time',
+  hardestHeading: 'Hardest to write',
+  statsEmpty: 'No writing stats recorded yet.',
+  pinStatsCard: 'Pin “Year in Numbers” to the board',
+  statsCardLines: (time: string, chars: number, edits: number, hints: number) => [
+    `${chars} characters written`,
+    `${time} spent`,
+    `${edits} revisions`,
+    `${hints} hints asked for`,
+  ],
+  statsCardHardest: (category: string) => `Hardest: “${category}”`,
+
+  pacedStartLabel: 'Or take it slow, a day at a time:',
+  pacedPerDay: (count: number) => `${count} a day`,
+  pacedPerDayTitle: (days: number) => `About ${days} days`,
+  pacedDraft: (day: number, streak: number) => `Paced · day ${day} · ${streak}-day streak`,
+  pacedDayOf: (day: number, total: number) => `Day ${day} of ${total}`,
+  pacedStreak: (days: number) => `${days}-day streak`,
+  pacedAnswered: (answered: number, total: number) => `${answered} of ${total} answered`,
+  pacedTodayHeading: "Today's questions",
+  pacedStartToday: "Start today's questions",
+  pacedDoneToday: "That's today done. See you tomorrow.",
+  pacedKeepGoing: 'Answer a few more',
+  pacedEndDate: 'Finish by',
+  pacedEndDateNote: 'The summary is generated once every question is answered or the end date passes.',
+  pacedGenerateNow: 'Generate the summary now',
+  pacedReminder: 'Daily reminder',
+  pacedReminderUnsupported: "This browser can't show reminders.",
+  pacedReminderDenied: 'Notifications are blocked; they can be allowed in the browser settings.',
+  reminderTitle: "Today's questions are ready",
+  reminderBody: (count: number) => `${count} questions are waiting for you.`,
+
+  pairStart: 'Answer as a pair',
+  pairNamePlaceholder: (n: number) => `Person ${n}'s name`,
+  pairBegin: 'Begin',
+  pairDraft: (names: string, name: string) => `${names} · ${name}'s turn`,
+  pairTurn: (name: string) => `${name} is writing`,
+  pairHandoffTitle: (name: string) => `Over to ${name}`,
+  pairHandoffNote: (first: string) => `${first}'s answers are tucked away and won't be shown again. Pass the device over.`,
+  pairHandoffStart: 'Start writing',
+  exportAnswers: 'Download answers file',
+  teamImport: "Team retro: import everyone's answers",
+  teamImportTitle: "Select every member's downloaded answers file at once, or a spreadsheet (CSV) with a row per person",
+  teamTitle: 'Team Retro',
+  teamMembers: (n: number) => `${n} ${n === 1 ? 'member' : 'members'}`,
+  teamSkippedFiles: (n: number) => `${n} ${n === 1 ? 'file was' : 'files were'} answers to another pack and skipped`,
+  teamAnonymousNote: "Answers are anonymised and shuffled; the team summary never quotes or names anyone.",
+  teamAnsweredCount: (answered: number, total: number) => `${answered}/${total} answered`,
+  teamMentions: 'Named by several',
+  teamGenerate: 'Generate team summary',
+  teamNoFiles: 'No answers files were found among these files.',
+  teamImportFailed: 'Something went wrong reading these files. Please try again.',
+  importReviewTitle: 'Check the imported answers',
+  importReviewCount: (found: number, total: number) => `Found ${found} of ${total} answers in the file`,
+  importReviewNote: 'Make sure each answer sits under the right question. You can edit it, move it to another question, or clear it.',
+  importMethod: {
+    regex: 'Read by number',
+    llm: 'Read by AI',
+    csv: 'Read from table',
+    fallback: 'Whole text',
+  },
+  importConfidence: (percent: number) => `${percent}% sure`,
+  importSource: 'Source',
+  importMoveTo: 'Move to…',
+  importClear: 'Clear',
+  importNoAnswer: 'No answer found',
+  importCancel: 'Discard import',
+  importContinue: 'Keep writing',
+  importGenerate: 'Generate now',
+  importConflictsHeading: (n: number) => `${n} ${n === 1 ? 'question was' : 'questions were'} answered differently in different files`,
+  importConflictsNote: 'Keep one, keep both, or keep neither.',
+  importKeepThis: 'Keep this',
+  importKeepBoth: 'Keep both',
+  importKeepNeither: 'Keep neither',
+  importConflictsPending: (n: number) => `${n} ${n === 1 ? 'conflict' : 'conflicts'} still to resolve`,
+  readingFileOf: (file: number, files: number) => `File ${file} of ${files}`,
+  exportCsv: 'Download as spreadsheet (CSV)',
+  exportArchiveCsv: "Export every year's answers to this pack as one spreadsheet (CSV)",
+  journalImport: 'Find material in my journal',
+  journalImportTitle: 'Pick an unzipped Day One export, or a folder of Markdown notes named by date (such as an Obsidian vault)',
+  journalLoaded: (entries: number, year: number, questions: number) => `${entries} journal ${entries === 1 ? 'entry' : 'entries'} from ${year}, with excerpts for ${questions} ${questions === 1 ? 'question' : 'questions'}`,
+  journalNoEntries: (year: number) => `No journal entries from ${year} were found in this folder.`,
+  journalReadFailed: "Couldn't read the journal. Make sure you picked a Day One export or a folder of Markdown notes.",
+  journalClear: 'Stop showing journal excerpts',
+  journalHeading: 'From your journal',
+  journalUse: 'Add to answer',
+  journalDismiss: 'Not relevant',
+  journalDraft: 'Draft an answer with AI',
+  journalDrafting: 'Drafting…',
+  journalDraftFailed: "Couldn't draft an answer. Try again later.",
+  journalAccept: 'Use draft',
+  journalReject: 'Discard',
+};
+
+export const UI_STRINGS: Record<Locale, UiStrings> = { 'zh-CN': zhCN, en };
+
+export const getStrings = (locale: Locale): UiStrings => UI_STRINGS[locale];
@@ -0,0 +1,70 @@
+// Service worker for the paced mode's daily reminders.
+// The page shows reminders through this worker while it is open; installed apps in Chromium
+// browsers also get a periodic sync, which checks the saved draft and reminds if today isn't done.
+
+const DB_NAME = "year-in-review-40";
+const DRAFTS_STORE = "drafts";
+const CURRENT_DRAFT_KEY = "current";
+const REMINDER_TAG = "paced-reminder";
+
+self.addEventListener("install", () => self.skipWaiting());
+
+self.addEventListener("activate", event => event.waitUntil(self.clients.claim()));
+
+self.addEventListener("notificationclick", event => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then(windows => {
+      const open = windows[0];
+      return open ? open.focus() : self.clients.openWindow(self.registration.scope);
+    })
+  );
+});
+
+const pad = n => String(n).padStart(2, "0");
+
+const toDateKey = date => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Read-only: the page owns the database and its upgrades
+const loadDraft = () =>
+  new Promise(resolve => {
+    const request = indexedDB.open(DB_NAME);
+    request.onupgradeneeded = () => request.transaction.abort();
+    request.onerror = () => resolve(null);
+    request.onsuccess = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+        db.close();
+        resolve(null);
+        return;
+      }
+      const get = db.transaction(DRAFTS_STORE, "readonly").objectStore(DRAFTS_STORE).get(CURRENT_DRAFT_KEY);
+      get.onsuccess = () => {
+        db.close();
+        resolve(get.result || null);
+      };
+      get.onerror = () => {
+        db.close();
+        resolve(null);
+      };
+    };
+  });
+
+const remindFromDraft = async () => {
+  const draft = await loadDraft();
+  const plan = draft && !draft.summary ? draft.paced : null;
+  if (!plan || !plan.reminderTime) return;
+  const now = new Date();
+  const today = toDateKey(now);
+  if (plan.completedDays.includes(today) || `${pad(now.getHours())}:${pad(now.getMinutes())}` < plan.reminderTime) return;
+  // The worker doesn't know the UI language; follow the browser's
+  const chinese = (self.navigator.language || "").toLowerCase().startsWith("zh");
+  await self.registration.showNotification(chinese ? "今天的问题准备好了" : "Today's questions are ready", {
+    body: chinese ? "花几分钟，写下今天的几个问题。" : "Take a few minutes for today's questions.",
+    tag: REMINDER_TAG,
+  });
+};
+
+self.addEventListener("periodicsync", event => {
+  if (event.tag === REMINDER_TAG) event.waitUntil(remindFromDraft());
+});
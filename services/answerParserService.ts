@@ -0,0 +1,283 @@
+import { ExtractedAnswers, Question } from "../types";
+import { getFollowUps, getMainQuestions } from "./followUpService";
+
+// Deterministic reading of answer files, tried before any model call. Layers, in order:
+//   1. numbered questions: "1.", "1、", "Q1:", "#1", "第1题", "(1)", also under Markdown headings
+//   2. Chinese-numbered questions ("一、"), only when there are no Arabic numbers to go by
+//   3. no numbers at all: lines that read like a question from the pack
+// Each answer carries a confidence, higher when the question text was found as well.
+
+// Long enough to recognise the passage in the review screen
+const SOURCE_SNIPPET_LENGTH = 240;
+
+// How alike a line must be to a question's text to count as that question
+const QUESTION_MATCH = 0.6;
+// Below this many numbered questions, the Chinese-numbered layer gets a try as well
+const MIN_NUMBERED_MARKERS = 3;
+
+const ARABIC_MARKERS: RegExp[] = [
+  /^(?:Q|q|问题|题)\s*(\d{1,3})\s*[.．、:：)）]?\s*(.*)$/,
+  /^#\s*(\d{1,3})\b[.．、:：]?\s*(.*)$/,
+  /^第\s*(\d{1,3})\s*[题問问]\s*[.．、:：]?\s*(.*)$/,
+  /^[(（](\d{1,3})[)）]\s*(.*)$/,
+  /^(\d{1,3})\s*[.．、:：)）](?!\d)\s*(.*)$/,
+];
+const CHINESE_MARKER = /^(?:第\s*)?([一二三四五六七八九十百〇零两]{1,4})\s*(?:[、.．:：]|题)\s*(.*)$/;
+const PART_HEADING = /^(?:part\s*\d+\b|第[一二三四五六七八九十\d]+部分)/i;
+const ANSWER_LABEL = /^(?:答案?|回答|A|Answer)\s*[:：]\s*/i;
+const QUESTION_END = /[?？:：]/g;
+
+const CHINESE_DIGITS: Record<string, number> = { 〇: 0, 零: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9 };
+
+interface Marker {
+  line: number;
+  number: number;
+  rest: string; // the line after the number
+}
+
+interface Block {
+  question: Question;
+  rest: string; // the first line, after any number
+  lines: string[]; // the lines after it, up to the next question
+  confidence: number;
+}
+
+export const toSnippet = (text: string): string => {
+  const clean = text.trim().replace(/\n{2,}/g, "\n");
+  return clean.length > SOURCE_SNIPPET_LENGTH ? `${clean.slice(0, SOURCE_SNIPPET_LENGTH)}…` : clean;
+};
+
+const parseChineseNumber = (text: string): number => {
+  if (text.includes("百")) return NaN;
+  const [tens, ones] = text.split("十");
+  if (ones === undefined) return text.length === 1 ? CHINESE_DIGITS[text] ?? NaN : NaN;
+  return (tens ? CHINESE_DIGITS[tens] ?? NaN : 1) * 10 + (ones ? CHINESE_DIGITS[ones] ?? NaN : 0);
+};
+
+const normalise = (text: string): string =>
+  text.toLowerCase().replace(/[\s\p{P}\p{S}]/gu, "");
+
+const bigrams = (text: string): string[] => {
+  const chars = Array.from(text);
+  return chars.length < 2 ? chars : chars.slice(1).map((char, i) => chars[i] + char);
+};
+
+// Dice similarity of character pairs: works the same for Chinese and English,
+// and forgives small edits to the wording. A line containing the whole question scores 1.
+export const getTextSimilarity = (line: string, questionText: string): number => {
+  const a = normalise(line);
+  const b = normalise(questionText);
+  if (!a || !b) return 0;
+  if (a.includes(b)) return 1;
+  const pairs = bigrams(b);
+  const pool = bigrams(a);
+  let shared = 0;
+  pairs.forEach(pair => {
+    const index = pool.indexOf(pair);
+    if (index >= 0) {
+      shared++;
+      pool.splice(index, 1);
+    }
+  });
+  return (2 * shared) / (pairs.length + bigrams(a).length);
+};
+
+// Split "question？ answer" written on one line. Returns the answer part, or null when
+// the line is only the question (or doesn't contain it at all).
+const splitSameLine = (line: string, questionText: string): { similarity: number; answer: string | null } => {
+  const whole = getTextSimilarity(line, questionText);
+  let best = { similarity: whole, answer: null as string | null };
+  for (const match of line.matchAll(QUESTION_END)) {
+    const end = match.index! + 1;
+    const similarity = getTextSimilarity(line.slice(0, end), questionText);
+    const answer = line.slice(end).trim();
+    if (answer && similarity >= QUESTION_MATCH && similarity >= best.similarity - 0.05) {
+      best = { similarity, answer };
+      break;
+    }
+  }
+  return best;
+};
+
+const findMarkers = (lines: string[], chinese: boolean): Marker[] =>
+  lines.flatMap((line, index) => {
+    if (chinese) {
+      const match = line.match(CHINESE_MARKER);
+      const number = match ? parseChineseNumber(match[1]) : NaN;
+      return match && number > 0 ? [{ line: index, number, rest: match[2].trim() }] : [];
+    }
+    for (const pattern of ARABIC_MARKERS) {
+      const match = line.match(pattern);
+      if (match) return [{ line: index, number: Number(match[1]), rest: match[2].trim() }];
+    }
+    return [];
+  });
+
+// Numbered lists inside answers ("1. Paris 2. Rome") look like question numbers too. Keep the
+// increasing run of numbers that best fits the pack, favouring lines that repeat the question text.
+const pickQuestionMarkers = (markers: Marker[], getQuestion: (n: number) => Question | undefined): Marker[] => {
+  const scored = markers
+    .map(marker => {
+      const question = getQuestion(marker.number);
+      return question ? { marker, score: 1 + 2 * getTextSimilarity(marker.rest, question.text) } : null;
+    })
+    .filter((entry): entry is { marker: Marker; score: number } => !!entry);
+  const best: number[] = [];
+  const previous: number[] = [];
+  scored.forEach((entry, i) => {
+    best[i] = entry.score;
+    previous[i] = -1;
+    for (let j = 0; j < i; j++) {
+      if (scored[j].marker.number < entry.marker.number && best[j] + entry.score > best[i]) {
+        best[i] = best[j] + entry.score;
+        previous[i] = j;
+      }
+    }
+  });
+  if (scored.length === 0) return [];
+  let index = best.indexOf(Math.max(...best));
+  const picked: Marker[] = [];
+  while (index >= 0) {
+    picked.unshift(scored[index].marker);
+    index = previous[index];
+  }
+  return picked;
+};
+
+const toBlocks = (
+  lines: string[],
+  starts: { line: number; question: Question; rest: string; confidence: number }[]
+): Block[] =>
+  starts.map((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].line : lines.length;
+    const body = lines.slice(start.line + 1, end);
+    // A section heading ends the answer before it
+    const headingAt = body.findIndex(line => PART_HEADING.test(line));
+    return {
+      question: start.question,
+      rest: start.rest,
+      lines: headingAt >= 0 ? body.slice(0, headingAt) : body,
+      confidence: start.confidence,
+    };
+  });
+
+const cleanAnswer = (lines: string[]): string =>
+  lines
+    .join("\n")
+    .replace(ANSWER_LABEL, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+// Turn a block into answers: the question's own, plus any follow-up whose text appears inside it
+const readBlock = (block: Block, questions: Question[], answers: ExtractedAnswers) => {
+  const { question } = block;
+  let confidence = block.confidence;
+  const firstLines: string[] = [];
+
+  if (block.rest) {
+    const { similarity, answer } = splitSameLine(block.rest, question.text);
+    if (similarity >= QUESTION_MATCH) {
+      confidence = Math.min(0.95, confidence + 0.2);
+      if (answer) firstLines.push(answer);
+    } else {
+      // A number followed straight by the answer ("Q1: 去了西藏")
+      firstLines.push(block.rest);
+    }
+  }
+
+  // The question may sit on its own line under a bare number
+  const body = [...block.lines];
+  const firstText = body.findIndex(line => line.trim());
+  if (!block.rest && firstText >= 0) {
+    const { similarity, answer } = splitSameLine(body[firstText], question.text);
+    if (similarity >= QUESTION_MATCH) {
+      confidence = Math.min(0.95, confidence + 0.2);
+      body.splice(firstText, 1, ...(answer ? [answer] : []));
+    }
+  }
+
+  const followUps = getFollowUps(questions, question.id);
+  let current = { question, confidence, lines: [...firstLines] };
+  const flush = () => {
+    const answer = cleanAnswer(current.lines);
+    if (answer && !answers[current.question.id]) {
+      answers[current.question.id] = {
+        answer,
+        method: "regex",
+        confidence: Math.round(current.confidence * 100) / 100,
+        source: toSnippet([block.rest, ...block.lines].join("\n")),
+      };
+    }
+  };
+  body.forEach(line => {
+    const followUp = followUps.find(f => splitSameLine(line, f.text).similarity >= QUESTION_MATCH);
+    if (!followUp) {
+      current.lines.push(line);
+      return;
+    }
+    flush();
+    const { answer } = splitSameLine(line, followUp.text);
+    current = { question: followUp, confidence: Math.min(confidence, 0.85), lines: answer ? [answer] : [] };
+  });
+  flush();
+};
+
+const parseNumbered = (lines: string[], questions: Question[], chinese: boolean): ExtractedAnswers => {
+  const mainQuestions = getMainQuestions(questions);
+  // Files count questions the way the app shows them (main questions only); the id is a fallback
+  const getQuestion = (n: number) => mainQuestions[n - 1] || mainQuestions.find(q => q.id === n);
+  const markers = pickQuestionMarkers(findMarkers(lines, chinese), getQuestion);
+  const answers: ExtractedAnswers = {};
+  toBlocks(
+    lines,
+    markers.map(marker => ({
+      line: marker.line,
+      question: getQuestion(marker.number)!,
+      rest: marker.rest,
+      confidence: chinese ? 0.65 : 0.75,
+    }))
+  ).forEach(block => readBlock(block, questions, answers));
+  return answers;
+};
+
+// No numbers: any line that reads like one of the questions starts that question's answer
+const parseByQuestionText = (lines: string[], questions: Question[]): ExtractedAnswers => {
+  const mainQuestions = getMainQuestions(questions);
+  const used = new Set<number>();
+  const starts: { line: number; question: Question; rest: string; confidence: number }[] = [];
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    let best: { question: Question; similarity: number } | null = null;
+    for (const question of mainQuestions) {
+      if (used.has(question.id) || line.length > question.text.length * 3) continue;
+      const { similarity } = splitSameLine(line, question.text);
+      if (similarity >= QUESTION_MATCH && (!best || similarity > best.similarity)) best = { question, similarity };
+    }
+    if (!best) return;
+    used.add(best.question.id);
+    starts.push({ line: index, question: best.question, rest: line, confidence: 0.35 + best.similarity * 0.4 });
+  });
+  const answers: ExtractedAnswers = {};
+  // The matched line is the question, so readBlock's match bonus brings a near-exact line up to the numbered level
+  toBlocks(lines, starts).forEach(block => readBlock(block, questions, answers));
+  return answers;
+};
+
+// Parse an answer file's text. Returns an empty map when no layer recognises anything.
+export const parsePlainTextAnswers = (text: string, questions: Question[]): ExtractedAnswers => {
+  if (!text) return {};
+  const lines = text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    // Markdown headings, bold and quote markers don't change what a line says
+    .map(line => line.replace(/^[ \t]*(?:#{1,6}[ \t]+|>[ \t]?)/, "").replace(/\*\*|__/g, "").trim());
+
+  const count = (answers: ExtractedAnswers) => Object.keys(answers).length;
+  let answers = parseNumbered(lines, questions, false);
+  if (count(answers) < MIN_NUMBERED_MARKERS) {
+    const chinese = parseNumbered(lines, questions, true);
+    if (count(chinese) > count(answers)) answers = chinese;
+  }
+  if (count(answers) === 0) answers = parseByQuestionText(lines, questions);
+  return answers;
+};
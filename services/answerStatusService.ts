@@ -0,0 +1,104 @@
+import { AnswerMeta, AnswerMetaMap, AnswerStatus, Answers, ExtractedAnswers } from "../types";
+
+const STATUSES: AnswerStatus[] = ["answered", "skipped", "declined", "imported", "ai-assisted"];
+
+export const isAnswerStatus = (value: unknown): value is AnswerStatus => STATUSES.includes(value as AnswerStatus);
+
+// Answers from before statuses existed only have text: non-empty text counts as answered.
+export const getAnswerStatus = (
+  id: number,
+  answers: Answers,
+  meta: AnswerMetaMap = {}
+): AnswerStatus | undefined => {
+  const status = meta[id]?.status;
+  if (status) return status;
+  return answers[id]?.trim() ? "answered" : undefined;
+};
+
+export const hasAnswerText = (status: AnswerStatus | undefined): boolean =>
+  status === "answered" || status === "imported" || status === "ai-assisted";
+
+// Record a new status, keeping when the question was first touched.
+export const setAnswerStatus = (
+  meta: AnswerMetaMap,
+  id: number,
+  status: AnswerStatus | undefined,
+  now: number = Date.now()
+): AnswerMetaMap => {
+  const next = { ...meta };
+  if (!status) {
+    delete next[id];
+    return next;
+  }
+  const previous = meta[id];
+  next[id] = { status, createdAt: previous?.createdAt ?? now, updatedAt: now };
+  return next;
+};
+
+// The status after the user types into a question. Imported answers stay imported
+// (marked as edited) and AI-assisted ones stay AI-assisted; clearing the text un-answers it.
+export const recordTyping = (
+  meta: AnswerMetaMap,
+  id: number,
+  text: string,
+  addedModelText: boolean, // a hint or draft was put into the answer, not just shown
+  now: number = Date.now()
+): AnswerMetaMap => {
+  if (!text.trim()) return setAnswerStatus(meta, id, undefined, now);
+  const previous = meta[id];
+  if (previous?.status === "imported") {
+    return { ...meta, [id]: { ...previous, updatedAt: now, edited: true } };
+  }
+  const status: AnswerStatus = addedModelText || previous?.status === "ai-assisted" ? "ai-assisted" : "answered";
+  return setAnswerStatus(meta, id, status, now);
+};
+
+// Everything a file import produced is marked as imported
+export const buildImportedMeta = (answers: Answers, now: number = Date.now()): AnswerMetaMap => {
+  const meta: AnswerMetaMap = {};
+  Object.entries(answers).forEach(([key, text]) => {
+    if (text.trim()) meta[Number(key)] = { status: "imported", createdAt: now, updatedAt: now };
+  });
+  return meta;
+};
+
+// Statuses a file carried (an exported CSV's status column) win over "imported": for answers that
+// arrived unchanged, and for skipped or declined questions that were left empty
+export const restoreImportedStatuses = (
+  meta: AnswerMetaMap,
+  answers: Answers,
+  extracted: ExtractedAnswers,
+  now: number = Date.now()
+): AnswerMetaMap => {
+  let next = meta;
+  Object.entries(extracted).forEach(([key, item]) => {
+    const id = Number(key);
+    if (!item.status) return;
+    const kept = hasAnswerText(item.status) ? answers[id] === item.answer.trim() : !answers[id];
+    if (kept) next = setAnswerStatus(next, id, item.status, now);
+  });
+  return next;
+};
+
+// Validate statuses coming from files or storage
+export const normaliseAnswerMeta = (raw: any): AnswerMetaMap | undefined => {
+  if (!raw || typeof raw !== "object") return undefined;
+  const meta: AnswerMetaMap = {};
+  Object.entries(raw).forEach(([key, value]: [string, any]) => {
+    const id = Number(key);
+    if (!Number.isInteger(id) || !value || !STATUSES.includes(value.status)) return;
+    const entry: AnswerMeta = {
+      status: value.status,
+      createdAt: Number.isFinite(value.createdAt) ? value.createdAt : 0,
+      updatedAt: Number.isFinite(value.updatedAt) ? value.updatedAt : 0,
+    };
+    if (value.edited === true) entry.edited = true;
+    meta[id] = entry;
+  });
+  return meta;
+};
+
+export const getQuestionIdsWithStatus = (meta: AnswerMetaMap, status: AnswerStatus): number[] =>
+  Object.entries(meta)
+    .filter(([, value]) => value.status === status)
+    .map(([key]) => Number(key));
@@ -0,0 +1,110 @@
+import { Answers, AnswerType, AnswerValue, AnswerValues, Locale, Question } from "../types";
+
+// Separators people use when listing things ("北京、上海、东京", "Paris, Rome and Tokyo").
+const ITEM_SEPARATORS = /[\n,，、;；/|]+|\s+(?:and|&)\s+|以及/;
+const MAX_ITEM_LENGTH = 30;
+
+export const getAnswerType = (question: Question): AnswerType => question.answerType || "text";
+
+export const isTypedQuestion = (question: Question): boolean => getAnswerType(question) !== "text";
+
+export const splitAnswerItems = (answer: string): string[] => {
+  const items = answer
+    .split(ITEM_SEPARATORS)
+    .map(item => item.trim().replace(/[。.!！?？]+$/, ""))
+    .filter(Boolean);
+  // Prose rather than a list: treat the whole answer as a single item
+  if (items.length === 0 || items.some(item => item.length > MAX_ITEM_LENGTH)) {
+    return answer.trim() ? [answer.trim()] : [];
+  }
+  return items;
+};
+
+export const isAnswerValueEmpty = (value: AnswerValue | undefined): boolean => {
+  if (value === undefined || value === null) return true;
+  if (typeof value === "string") return !value.trim();
+  if (typeof value === "number") return Number.isNaN(value);
+  if (Array.isArray(value)) return value.every(item => !item.trim());
+  return Object.values(value).every(v => (typeof v === "string" ? !v.trim() : Number.isNaN(v)));
+};
+
+// The plain-text form of a structured value; this is what Answers stores, so every
+// text consumer (notebook, extraction, comparison) keeps working unchanged.
+export const formatAnswerValue = (question: Question, value: AnswerValue | undefined, locale: Locale = "zh-CN"): string => {
+  if (isAnswerValueEmpty(value)) return "";
+  const [itemSeparator, labelSeparator, fieldSeparator] = locale === "en" ? [", ", ": ", "; "] : ["、", "：", "；"];
+  switch (getAnswerType(question)) {
+    case "list":
+      return Array.isArray(value) ? value.map(v => v.trim()).filter(Boolean).join(itemSeparator) : String(value);
+    case "scale":
+      return question.scale ? `${value} / ${question.scale.max}` : String(value);
+    case "fields": {
+      if (typeof value !== "object" || Array.isArray(value)) return String(value);
+      const record = value as { [fieldId: string]: string | number };
+      return (question.fields || [])
+        .filter(field => record[field.id] !== undefined && String(record[field.id]).trim())
+        .map(field => {
+          const fieldValue = record[field.id];
+          const text = field.type === "scale" && field.scale ? `${fieldValue} / ${field.scale.max}` : fieldValue;
+          return `${field.label}${labelSeparator}${text}`;
+        })
+        .join(fieldSeparator);
+    }
+    default:
+      return String(value).trim();
+  }
+};
+
+const findOption = (text: string, options: string[] = []): string | undefined => {
+  const matches = options.filter(option => text.includes(option));
+  return matches.length === 1 ? matches[0] : undefined;
+};
+
+const findScaleValue = (text: string, min: number, max: number): number | undefined => {
+  const match = text.match(/-?\d+(?:\.\d+)?/);
+  const value = match ? Number(match[0]) : NaN;
+  return value >= min && value <= max ? value : undefined;
+};
+
+// Best-effort structured value for text that arrived without one (file import, old sessions).
+export const parseAnswerText = (question: Question, text: string): AnswerValue | undefined => {
+  const clean = text?.trim();
+  if (!clean) return undefined;
+  switch (getAnswerType(question)) {
+    case "short":
+      return clean.split("\n")[0].trim();
+    case "list":
+      return splitAnswerItems(clean);
+    case "choice":
+      return findOption(clean, question.options);
+    case "scale":
+      return question.scale ? findScaleValue(clean, question.scale.min, question.scale.max) : undefined;
+    case "fields": {
+      const record: { [fieldId: string]: string | number } = {};
+      (question.fields || []).forEach(field => {
+        if (field.type === "choice") {
+          const option = findOption(clean, field.options);
+          if (option) record[field.id] = option;
+        }
+      });
+      return Object.keys(record).length > 0 ? record : undefined;
+    }
+    default:
+      return undefined;
+  }
+};
+
+// Fill in structured values for typed questions that only have text, keeping existing ones.
+export const deriveAnswerValues = (
+  questions: Question[],
+  answers: Answers,
+  existing: AnswerValues = {}
+): AnswerValues => {
+  const values: AnswerValues = { ...existing };
+  questions.forEach(question => {
+    if (!isTypedQuestion(question) || values[question.id] !== undefined) return;
+    const parsed = parseAnswerText(question, answers[question.id] || "");
+    if (parsed !== undefined) values[question.id] = parsed;
+  });
+  return values;
+};
@@ -0,0 +1,60 @@
+import { AnswerAttachments, AnswerMetaMap, Answers, AnswerValues, ArchiveEntry, DraggableItem, QuestionPack, WritingStatsMap, YearSummary } from "../types";
+import { BUILTIN_QUESTION_PACKS } from "../constants";
+import { STORES, idbDelete, idbGetAll, idbPut } from "./db";
+
+// Reviews are usually written in December; in January people are still looking back at last year.
+export const getDefaultReviewYear = (date: Date = new Date()): number =>
+  date.getMonth() === 0 ? date.getFullYear() - 1 : date.getFullYear();
+
+export const getArchiveKey = (year: number, packId: string): string => `${year}/${packId}`;
+
+export const loadArchive = async (): Promise<ArchiveEntry[]> => {
+  try {
+    const entries = await idbGetAll<ArchiveEntry>(STORES.archive);
+    // Newest year first; within a year, most recently edited first
+    return entries.sort((a, b) => b.year - a.year || b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.warn("Failed to load archive", error);
+    return [];
+  }
+};
+
+export const saveToArchive = async (session: {
+  year: number;
+  pack: QuestionPack;
+  answers: Answers;
+  answerValues?: AnswerValues;
+  answerMeta?: AnswerMetaMap;
+  attachments?: AnswerAttachments;
+  writingStats?: WritingStatsMap;
+  summary: YearSummary | null;
+  boardItems: DraggableItem[];
+}): Promise<void> => {
+  const entry: ArchiveEntry = {
+    key: getArchiveKey(session.year, session.pack.id),
+    year: session.year,
+    packId: session.pack.id,
+    pack: BUILTIN_QUESTION_PACKS.some(p => p.id === session.pack.id) ? undefined : session.pack,
+    answers: session.answers,
+    answerValues: session.answerValues,
+    answerMeta: session.answerMeta,
+    attachments: session.attachments,
+    writingStats: session.writingStats,
+    summary: session.summary,
+    boardItems: session.boardItems,
+    updatedAt: Date.now(),
+  };
+  try {
+    await idbPut<ArchiveEntry>(STORES.archive, entry.key, entry);
+  } catch (error) {
+    console.warn("Failed to save to archive", error);
+  }
+};
+
+export const deleteFromArchive = async (key: string): Promise<void> => {
+  try {
+    await idbDelete(STORES.archive, key);
+  } catch (error) {
+    console.warn("Failed to delete archive entry", error);
+  }
+};
@@ -0,0 +1,96 @@
+import { AnswerAttachment, AnswerAttachments, Answers, Question } from "../types";
+import { getQuestionFlow } from "./followUpService";
+
+// Photos are downscaled before they are stored: drafts, archive entries and session files
+// all carry attachments inline, and phone photos would otherwise make them many MB each.
+const MAX_PHOTO_EDGE = 1280;
+const PHOTO_QUALITY = 0.85;
+
+const createAttachmentId = () => `att-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not read the image."));
+    image.src = src;
+  });
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+
+export const readPhotoFile = async (file: File): Promise<AnswerAttachment> => {
+  const original = await readAsDataUrl(file);
+  const image = await loadImage(original);
+  const scale = Math.min(1, MAX_PHOTO_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+  let dataUrl = original;
+  if (scale < 1 || file.type !== "image/jpeg") {
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    const context = canvas.getContext("2d");
+    if (context) {
+      // JPEG has no alpha; paint transparent PNGs onto paper white instead of black
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      dataUrl = canvas.toDataURL("image/jpeg", PHOTO_QUALITY);
+    }
+  }
+  return { id: createAttachmentId(), kind: "photo", dataUrl, createdAt: Date.now() };
+};
+
+export const createSketchAttachment = (dataUrl: string): AnswerAttachment => ({
+  id: createAttachmentId(),
+  kind: "sketch",
+  dataUrl,
+  createdAt: Date.now(),
+});
+
+export const addAttachment = (attachments: AnswerAttachments, questionId: number, attachment: AnswerAttachment): AnswerAttachments => ({
+  ...attachments,
+  [questionId]: [...(attachments[questionId] || []), attachment],
+});
+
+export const removeAttachment = (attachments: AnswerAttachments, questionId: number, attachmentId: string): AnswerAttachments => {
+  const next = { ...attachments };
+  const remaining = (next[questionId] || []).filter(a => a.id !== attachmentId);
+  if (remaining.length > 0) next[questionId] = remaining;
+  else delete next[questionId];
+  return next;
+};
+
+// Every attachment with its question, in the order the questions were asked
+export const listAttachments = (
+  attachments: AnswerAttachments,
+  questions: Question[],
+  answers: Answers
+): { question: Question; attachment: AnswerAttachment }[] =>
+  getQuestionFlow(questions, answers).flatMap(question =>
+    (attachments[question.id] || []).map(attachment => ({ question, attachment }))
+  );
+
+// Validate attachments coming from files or storage; only inline images are accepted
+export const normaliseAttachments = (raw: any): AnswerAttachments | undefined => {
+  if (!raw || typeof raw !== "object") return undefined;
+  const attachments: AnswerAttachments = {};
+  Object.entries(raw).forEach(([key, list]) => {
+    const id = Number(key);
+    if (!Number.isInteger(id) || !Array.isArray(list)) return;
+    const valid = list.filter(
+      (a: any): a is AnswerAttachment =>
+        !!a &&
+        typeof a.id === "string" &&
+        (a.kind === "photo" || a.kind === "sketch") &&
+        typeof a.dataUrl === "string" &&
+        a.dataUrl.startsWith("data:image/")
+    ).map(a => ({ ...a, createdAt: Number.isFinite(a.createdAt) ? a.createdAt : 0 }));
+    if (valid.length > 0) attachments[id] = valid;
+  });
+  return attachments;
+};
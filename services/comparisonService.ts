@@ -0,0 +1,103 @@
+import { Answers, AnswerComparison, AnswerValue, AnswerValues, ArchiveEntry, ComparisonStatus, Question } from "../types";
+import { splitAnswerItems } from "./answerValueService";
+
+// Opposite pairs whose swap is worth calling out (Q18 asks three of them).
+const OPPOSITES: [string, string][] = [
+  ["快乐", "悲伤"],
+  ["开心", "难过"],
+  ["瘦", "胖"],
+  ["富", "穷"],
+  ["happier", "sadder"],
+  ["thinner", "fatter"],
+  ["richer", "poorer"],
+];
+
+const normalise = (text: string): string =>
+  text.toLowerCase().replace(/[\s《》"“”'‘’「」。.!！?？]/g, "");
+
+const whichSide = (text: string, [a, b]: [string, string]): string | null => {
+  const lower = text.toLowerCase();
+  const hasA = lower.includes(a);
+  const hasB = lower.includes(b);
+  // Both present usually means the question was copied verbatim; no signal
+  return hasA === hasB ? null : hasA ? a : b;
+};
+
+const detectFlips = (current: string, previous: string) =>
+  OPPOSITES.flatMap(pair => {
+    const from = whichSide(previous, pair);
+    const to = whichSide(current, pair);
+    return from && to && from !== to ? [{ from, to }] : [];
+  });
+
+// Typed 'fields' questions (Q18) record their choices directly; no text scraping needed.
+const detectFieldFlips = (question: Question, current?: AnswerValue, previous?: AnswerValue) => {
+  if (!question.fields || !current || !previous) return null;
+  if (typeof current !== "object" || Array.isArray(current)) return null;
+  if (typeof previous !== "object" || Array.isArray(previous)) return null;
+  return question.fields.flatMap(field => {
+    const from = previous[field.id];
+    const to = current[field.id];
+    return field.type === "choice" && from !== undefined && to !== undefined && from !== to
+      ? [{ from: String(from), to: String(to) }]
+      : [];
+  });
+};
+
+const getStatus = (current: string, previous: string): ComparisonStatus => {
+  if (!current && !previous) return "unanswered";
+  if (!previous) return "new";
+  if (!current) return "dropped";
+  return normalise(current) === normalise(previous) ? "unchanged" : "changed";
+};
+
+// Compare this year's answers with an earlier year's. When the earlier session used a
+// different pack, questions are matched by their text instead of by id.
+export const compareAnswers = (
+  questions: Question[],
+  currentAnswers: Answers,
+  previousAnswers: Answers,
+  previousQuestions?: Question[],
+  currentValues: AnswerValues = {},
+  previousValues: AnswerValues = {}
+): AnswerComparison[] =>
+  questions.map(question => {
+    const previousId = previousQuestions
+      ? previousQuestions.find(q => normalise(q.text) === normalise(question.text))?.id
+      : question.id;
+    const current = (currentAnswers[question.id] || "").trim();
+    const previous = previousId !== undefined ? (previousAnswers[previousId] || "").trim() : "";
+    const status = getStatus(current, previous);
+
+    if (status !== "changed") {
+      return { question, current, previous, status, added: [], removed: [], flips: [] };
+    }
+
+    const currentValue = currentValues[question.id];
+    const previousValue = previousId !== undefined ? previousValues[previousId] : undefined;
+    const currentItems = Array.isArray(currentValue) ? currentValue : splitAnswerItems(current);
+    const previousItems = Array.isArray(previousValue) ? previousValue : splitAnswerItems(previous);
+    const previousKeys = new Set(previousItems.map(normalise));
+    const currentKeys = new Set(currentItems.map(normalise));
+    const isList = currentItems.length > 1 || previousItems.length > 1;
+
+    return {
+      question,
+      current,
+      previous,
+      status,
+      added: isList ? currentItems.filter(item => !previousKeys.has(normalise(item))) : [],
+      removed: isList ? previousItems.filter(item => !currentKeys.has(normalise(item))) : [],
+      flips: detectFieldFlips(question, currentValue, previousValue) ?? detectFlips(current, previous),
+    };
+  });
+
+// The most recent earlier year, preferring a session run on the same pack.
+export const findPreviousEntry = (
+  entries: ArchiveEntry[],
+  year: number,
+  packId: string
+): ArchiveEntry | undefined =>
+  entries
+    .filter(entry => entry.year < year)
+    .sort((a, b) => b.year - a.year || Number(b.packId === packId) - Number(a.packId === packId))[0];
@@ -0,0 +1,227 @@
+import { AnswerMetaMap, AnswerStatus, Answers, ArchiveEntry, ExtractedAnswers, Locale, Question } from "../types";
+import { getMainQuestions } from "./followUpService";
+import { getAnswerStatus, hasAnswerText, isAnswerStatus } from "./answerStatusService";
+import { getTextSimilarity, toSnippet } from "./answerParserService";
+
+// Spreadsheets in two layouts, both read without any model call:
+//   wide: one column per question, one row per person (what facilitators collect)
+//   long: one row per question, with one answer column or one column per year (what we export)
+
+const QUESTION_MATCH = 0.6;
+const NUMBER_HEADER = /^(?:Q|q|问题|题|#|第)?\s*(\d{1,3})(?:\s*[.．、:：)）题]|$)/;
+const YEAR_HEADER = /^((?:19|20)\d{2})\s*年?$/;
+const QUESTION_HEADER = /^(?:question|问题|题目)$/i;
+const ANSWER_HEADER = /^(?:answers?|回答|答案)$/i;
+const STATUS_HEADER = /^(?:status|状态)$/i;
+// Cells starting like this run as formulas in Excel and Sheets, so exported text gets a leading
+// apostrophe (shown as text, not printed) that is removed again on import
+const FORMULA_START = /^[=+\-@\t\r]/;
+const ESCAPED_FORMULA = /^'(?=[=+\-@\t\r])/;
+// Excel only reads UTF-8 (and so Chinese) correctly with a byte order mark
+const UTF8_BOM = "\uFEFF";
+
+export interface CsvImport {
+  people: ExtractedAnswers[]; // wide layout, one per row with any answer; names are not kept
+  years: { year: number; extracted: ExtractedAnswers }[]; // long layout with year columns
+  answers: ExtractedAnswers | null; // long layout with a single answer column
+}
+
+export const isCsvFile = (file: File): boolean =>
+  file.type === "text/csv" || /\.(csv|tsv)$/i.test(file.name);
+
+// RFC 4180: quoted fields may hold separators, newlines and doubled quotes. The separator
+// is whichever of comma, semicolon (European Excel) or tab the first line uses most.
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, "");
+  const firstLine = source.slice(0, source.indexOf("\n") >= 0 ? source.indexOf("\n") : undefined);
+  const separator = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && !field) {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+const escapeField = (text: string): string => {
+  const value = FORMULA_START.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toCsv = (rows: string[][]): string =>
+  UTF8_BOM + rows.map(row => row.map(escapeField).join(",")).join("\r\n");
+
+// A header or first cell that names a question, by its number as the app shows it or by its text
+const matchQuestion = (cell: string, questions: Question[], byNumber = true): { question: Question; confidence: number } | null => {
+  const text = cell.trim();
+  if (!text) return null;
+  const mainQuestions = getMainQuestions(questions);
+  const number = byNumber ? text.match(NUMBER_HEADER) : null;
+  if (number) {
+    const question = mainQuestions[Number(number[1]) - 1];
+    if (question) return { question, confidence: 0.95 };
+  }
+  let best: { question: Question; confidence: number } | null = null;
+  questions.forEach(question => {
+    const similarity = getTextSimilarity(text, question.text);
+    if (similarity >= QUESTION_MATCH && (!best || similarity > best.confidence)) best = { question, confidence: similarity };
+  });
+  return best;
+};
+
+// Skipped and declined rows are kept without an answer, so the import can restore their status
+const toExtracted = (cells: { question: Question; confidence: number; answer: string; source: string; status?: AnswerStatus }[]): ExtractedAnswers => {
+  const extracted: ExtractedAnswers = {};
+  cells.forEach(({ question, confidence, answer, source, status }) => {
+    const clean = answer.trim();
+    if (extracted[question.id] || !(clean || (status && !hasAnswerText(status)))) return;
+    extracted[question.id] = {
+      answer: clean,
+      method: "csv",
+      confidence: Math.round(confidence * 100) / 100,
+      source: toSnippet(source),
+      ...(status ? { status } : {}),
+    };
+  });
+  return extracted;
+};
+
+const readWide = (rows: string[][], questions: Question[]): CsvImport["people"] => {
+  const [header, ...body] = rows;
+  const columns = header.map(cell => matchQuestion(cell, questions));
+  return body
+    .map(row =>
+      toExtracted(
+        columns.flatMap((match, column) =>
+          match ? [{ ...match, answer: row[column] || "", source: `${header[column]}: ${row[column] || ""}` }] : []
+        )
+      )
+    )
+    .filter(person => Object.keys(person).length > 0);
+};
+
+const readLong = (rows: string[][], questions: Question[]): Omit<CsvImport, "people"> => {
+  const [header, ...body] = rows;
+  // The question is named in the first column, or in the second when the first only holds "#"
+  const textColumn = header.findIndex(cell => QUESTION_HEADER.test(cell.trim()));
+  const keyColumns = textColumn > 0 ? [0, textColumn] : [0];
+  const matches = body.map(row => {
+    for (const column of keyColumns) {
+      const match = matchQuestion(row[column] || "", questions, column === 0);
+      if (match) return match;
+    }
+    return null;
+  });
+
+  const yearColumns = header.flatMap((cell, column) => {
+    const year = cell.trim().match(YEAR_HEADER);
+    return year && !keyColumns.includes(column) ? [{ column, year: Number(year[1]) }] : [];
+  });
+  const statusColumn = header.findIndex(cell => STATUS_HEADER.test(cell.trim()));
+  const readColumn = (column: number, withStatus = false) =>
+    toExtracted(
+      body.flatMap((row, index) => {
+        const match = matches[index];
+        const status = withStatus ? row[statusColumn]?.trim() : undefined;
+        return match
+          ? [{
+              ...match,
+              answer: row[column] || "",
+              source: `${row[keyColumns[keyColumns.length - 1]] || ""}: ${row[column] || ""}`,
+              ...(isAnswerStatus(status) ? { status } : {}),
+            }]
+          : [];
+      })
+    );
+
+  if (yearColumns.length > 0) {
+    return { years: yearColumns.map(({ column, year }) => ({ year, extracted: readColumn(column) })), answers: null };
+  }
+  const answerColumn = header.findIndex((cell, column) => ANSWER_HEADER.test(cell.trim()) && !keyColumns.includes(column));
+  const lastColumn = statusColumn === header.length - 1 ? header.length - 2 : header.length - 1;
+  return { years: [], answers: readColumn(answerColumn >= 0 ? answerColumn : lastColumn, statusColumn >= 0) };
+};
+
+// Work out the layout from whichever reading recognises more questions
+export const readAnswersCsv = (text: string, questions: Question[]): CsvImport => {
+  const rows = parseCsv(text).map(row => row.map(cell => cell.replace(ESCAPED_FORMULA, "")));
+  if (rows.length < 2) return { people: [], years: [], answers: null };
+  const wideMatches = rows[0].filter(cell => matchQuestion(cell, questions)).length;
+  const longMatches = rows.slice(1).filter(row => matchQuestion(row[0] || "", questions) || matchQuestion(row[1] || "", questions, false)).length;
+  if (wideMatches >= 2 && wideMatches >= longMatches) {
+    return { people: readWide(rows, questions), years: [], answers: null };
+  }
+  return { people: [], ...readLong(rows, questions) };
+};
+
+// The year being reviewed if the file has a column for it, otherwise the latest one
+export const pickYearColumn = (years: CsvImport["years"], year: number): CsvImport["years"][number] =>
+  years.find(column => column.year === year) || years.reduce((latest, column) => (column.year > latest.year ? column : latest));
+
+// Rows in the long layout: number (blank for follow-ups), question, then one column per source
+const buildQuestionRows = (questions: Question[], columns: Answers[]): string[][] => {
+  const mainQuestions = getMainQuestions(questions);
+  return questions.map(question => [
+    question.followUp ? "" : String(mainQuestions.indexOf(question) + 1),
+    question.text,
+    ...columns.map(answers => answers[question.id] || ""),
+  ]);
+};
+
+// The status column tells skipped from declined (both empty) and keeps AI-assisted answers marked on re-import
+export const buildAnswersCsv = (questions: Question[], answers: Answers, answerMeta: AnswerMetaMap = {}, locale: Locale = "zh-CN"): string =>
+  toCsv([
+    ["#", locale === "en" ? "Question" : "问题", locale === "en" ? "Answer" : "回答", locale === "en" ? "Status" : "状态"],
+    ...buildQuestionRows(questions, [answers]).map((row, index) => [...row, getAnswerStatus(questions[index].id, answers, answerMeta) || ""]),
+  ]);
+
+// Every archived year of one pack side by side, oldest first, so the file reads as a timeline
+export const buildArchiveCsv = (questions: Question[], entries: ArchiveEntry[], locale: Locale = "zh-CN"): string => {
+  const years = [...entries].sort((a, b) => a.year - b.year);
+  return toCsv([
+    ["#", locale === "en" ? "Question" : "问题", ...years.map(entry => String(entry.year))],
+    ...buildQuestionRows(questions, years.map(entry => entry.answers)),
+  ]);
+};
+
+export const downloadCsv = (csv: string, filename: string) => {
+  const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.download = filename;
+  link.href = url;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,68 @@
+// Minimal promise wrapper around the browser's IndexedDB.
+// All local persistence goes through here so stores are declared in one place.
+
+const DB_NAME = "year-in-review-40";
+const DB_VERSION = 2;
+
+export const STORES = {
+  drafts: "drafts",
+  archive: "archive",
+} as const;
+
+type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach(store => {
+          if (!db.objectStoreNames.contains(store)) db.createObjectStore(store);
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      // Let a later call retry instead of caching the failure forever.
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  makeRequest: (objectStore: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = makeRequest(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const idbGet = <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  runRequest<T | undefined>(store, "readonly", s => s.get(key));
+
+export const idbGetAll = <T>(store: StoreName): Promise<T[]> =>
+  runRequest<T[]>(store, "readonly", s => s.getAll());
+
+export const idbPut = async <T>(store: StoreName, key: IDBValidKey, value: T): Promise<void> => {
+  await runRequest(store, "readwrite", s => s.put(value, key));
+};
+
+export const idbDelete = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  await runRequest(store, "readwrite", s => s.delete(key));
+};
@@ -0,0 +1,153 @@
+// Client-side text extraction for Word and HTML uploads, so they can go through the
+// plain-text parser without the file leaving the browser.
+
+const WORD_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const DOCUMENT_ENTRY = "word/document.xml";
+
+// ZIP record signatures (little-endian)
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const BLOCK_TAGS = new Set([
+  "ADDRESS", "ARTICLE", "ASIDE", "BLOCKQUOTE", "DD", "DIV", "DL", "DT", "FIGCAPTION", "FIGURE", "FOOTER",
+  "FORM", "H1", "H2", "H3", "H4", "H5", "H6", "HEADER", "HR", "LI", "MAIN", "NAV", "OL", "P", "PRE",
+  "SECTION", "TABLE", "TR", "UL",
+]);
+const SKIPPED_TAGS = new Set(["SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE", "HEAD"]);
+
+export const isDocxFile = (file: File): boolean =>
+  file.type === "application/vnd.openxmlformats-officedocument.wordprocessingml.document" || /\.docx$/i.test(file.name);
+
+export const isHtmlFile = (file: File): boolean =>
+  file.type === "text/html" || file.type === "application/xhtml+xml" || /\.x?html?$/i.test(file.name);
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Just enough of the ZIP format to pull one entry out of a .docx: find it in the central
+// directory, then read it from its local header (stored or deflated).
+const readZipEntry = async (buffer: ArrayBuffer, name: string): Promise<Uint8Array | null> => {
+  const view = new DataView(buffer);
+  let end = -1;
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) return null;
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder("utf-8");
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) return null;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const entryName = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    if (entryName === name) {
+      if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) return null;
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = new Uint8Array(buffer, dataStart, compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflateRaw(data);
+      throw new Error(`Unsupported compression method ${method} in ${name}`);
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+};
+
+// Word's automatic list numbering isn't in the text, but question numbers usually are
+// such a list, so numbered paragraphs are counted and given back their "1." prefix.
+const readParagraph = (paragraph: Element, counters: Map<string, number>): string => {
+  let text = "";
+  const walk = (node: Element) => {
+    Array.from(node.children).forEach(child => {
+      if (child.namespaceURI !== WORD_NS) return;
+      if (child.localName === "t") text += child.textContent || "";
+      else if (child.localName === "tab") text += "\t";
+      else if (child.localName === "br" || child.localName === "cr") text += "\n";
+      else if (child.localName !== "pPr" && child.localName !== "rPr") walk(child);
+    });
+  };
+  walk(paragraph);
+
+  const numbering = paragraph.getElementsByTagNameNS(WORD_NS, "numPr")[0];
+  if (!numbering || !text.trim()) return text;
+  const numId = numbering.getElementsByTagNameNS(WORD_NS, "numId")[0]?.getAttributeNS(WORD_NS, "val") || "0";
+  const level = numbering.getElementsByTagNameNS(WORD_NS, "ilvl")[0]?.getAttributeNS(WORD_NS, "val") || "0";
+  // Only top-level items carry question numbers; nested bullets are left as they are
+  if (level !== "0" || numId === "0") return text;
+  const count = (counters.get(numId) || 0) + 1;
+  counters.set(numId, count);
+  return `${count}. ${text}`;
+};
+
+// Paragraph text of a .docx, one paragraph per line, table cells included
+export const extractDocxText = async (buffer: ArrayBuffer): Promise<string> => {
+  const xml = await readZipEntry(buffer, DOCUMENT_ENTRY);
+  if (!xml) throw new Error("Not a Word document");
+  const doc = new DOMParser().parseFromString(new TextDecoder("utf-8").decode(xml), "application/xml");
+  const counters = new Map<string, number>();
+  return Array.from(doc.getElementsByTagNameNS(WORD_NS, "p"))
+    .map(paragraph => readParagraph(paragraph, counters))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+};
+
+// Visible text of an HTML page with its line structure: blocks on their own lines,
+// ordered list items numbered and headings kept as lines of their own.
+export const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const lines: string[] = [""];
+  const breakLine = () => {
+    if (lines[lines.length - 1].trim()) lines.push("");
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      lines[lines.length - 1] += (node.textContent || "").replace(/\s+/g, " ");
+      return;
+    }
+    if (!(node instanceof Element) || SKIPPED_TAGS.has(node.tagName)) return;
+    if (node.tagName === "BR") {
+      lines.push("");
+      return;
+    }
+    const isBlock = BLOCK_TAGS.has(node.tagName);
+    if (isBlock) breakLine();
+    if (node.tagName === "LI" && node.parentElement?.tagName === "OL") {
+      const start = Number(node.parentElement.getAttribute("start")) || 1;
+      const index = Array.from(node.parentElement.children).filter(child => child.tagName === "LI").indexOf(node);
+      lines[lines.length - 1] += `${start + index}. `;
+    }
+    if (node.tagName === "TD" || node.tagName === "TH") lines[lines.length - 1] += " ";
+    node.childNodes.forEach(walk);
+    if (isBlock) breakLine();
+  };
+  walk(doc.body);
+
+  return lines
+    .map(line => line.trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+};
+
+// Text of a Word or HTML upload, or null for any other kind of file
+export const readDocumentText = async (file: File): Promise<string | null> => {
+  if (isDocxFile(file)) return extractDocxText(await file.arrayBuffer());
+  if (isHtmlFile(file)) return htmlToText(await file.text());
+  return null;
+};
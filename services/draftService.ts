@@ -0,0 +1,40 @@
+import { Question, SessionDraft } from "../types";
+import { STORES, idbDelete, idbGet, idbPut } from "./db";
+import { getMainQuestions } from "./followUpService";
+
+const CURRENT_DRAFT_KEY = "current";
+
+// Drafts are a convenience: storage failures are logged and never block answering.
+
+export const loadDraft = async (): Promise<SessionDraft | null> => {
+  try {
+    const draft = await idbGet<SessionDraft>(STORES.drafts, CURRENT_DRAFT_KEY);
+    if (!draft || typeof draft.answers !== "object") return null;
+    return draft;
+  } catch (error) {
+    console.warn("Failed to load draft", error);
+    return null;
+  }
+};
+
+export const saveDraft = async (draft: Omit<SessionDraft, "updatedAt">): Promise<void> => {
+  try {
+    await idbPut<SessionDraft>(STORES.drafts, CURRENT_DRAFT_KEY, { ...draft, updatedAt: Date.now() });
+  } catch (error) {
+    console.warn("Failed to save draft", error);
+  }
+};
+
+export const clearDraft = async (): Promise<void> => {
+  try {
+    await idbDelete(STORES.drafts, CURRENT_DRAFT_KEY);
+  } catch (error) {
+    console.warn("Failed to clear draft", error);
+  }
+};
+
+// Pass the pack's questions to count only main questions, so optional follow-ups don't inflate "x / 40"
+export const countAnswered = (draft: Pick<SessionDraft, "answers">, questions?: Question[]): number => {
+  const ids = questions ? getMainQuestions(questions).map(q => q.id) : Object.keys(draft.answers).map(Number);
+  return ids.filter(id => typeof draft.answers[id] === "string" && draft.answers[id].trim()).length;
+};
@@ -0,0 +1,62 @@
+import { Answers, FollowUpRule, Question } from "../types";
+
+// "没有" / "无" / "不是" / "No, ..." — anything else that was written counts as a yes.
+const NEGATIVE_ANSWER = /^(没|无|否|不|未|并没|还没|暂时没|no\b|nope|never|not\b|none|nothing)/i;
+
+export const isFollowUp = (question: Question): boolean => !!question.followUp;
+
+export const getMainQuestions = (questions: Question[]): Question[] => questions.filter(q => !isFollowUp(q));
+
+export const getFollowUps = (questions: Question[], parentId: number): Question[] =>
+  questions.filter(q => q.followUp?.parentId === parentId);
+
+export const isNegativeAnswer = (answer: string): boolean => NEGATIVE_ANSWER.test(answer.trim());
+
+// Conditions read the text form of the parent's answer, which for typed questions
+// contains the picked option, so one rule format works for every answer type.
+export const isFollowUpTriggered = (rule: FollowUpRule, answers: Answers): boolean => {
+  const answer = (answers[rule.parentId] || "").trim();
+  if (!answer) return false;
+  if (rule.when === "answered") return true;
+  if (rule.when === "yes") return !isNegativeAnswer(answer);
+  if (rule.when === "no") return isNegativeAnswer(answer);
+  return rule.when.some(option => answer.includes(option));
+};
+
+// The questions as they are actually asked: each main question followed by the
+// follow-ups its answer triggered (follow-ups may have follow-ups of their own).
+export const getQuestionFlow = (questions: Question[], answers: Answers): Question[] => {
+  const flow: Question[] = [];
+  const visit = (question: Question) => {
+    flow.push(question);
+    getFollowUps(questions, question.id)
+      .filter(followUp => isFollowUpTriggered(followUp.followUp!, answers))
+      .forEach(visit);
+  };
+  getMainQuestions(questions).forEach(visit);
+  return flow;
+};
+
+// Questions any of several people were asked. Follow-ups depend on each person's own answers,
+// so the flow is walked again with every follow-up that anyone got.
+export const getCombinedFlow = (questions: Question[], answerSets: Answers[]): Question[] => {
+  const asked = new Set(answerSets.flatMap(answers => getQuestionFlow(questions, answers).map(q => q.id)));
+  const flow: Question[] = [];
+  const visit = (question: Question) => {
+    flow.push(question);
+    getFollowUps(questions, question.id).filter(q => asked.has(q.id)).forEach(visit);
+  };
+  getMainQuestions(questions).forEach(visit);
+  return flow;
+};
+
+// The main question a follow-up ultimately belongs to
+export const getRootQuestion = (questions: Question[], question: Question): Question => {
+  let current = question;
+  while (current.followUp) {
+    const parent = questions.find(q => q.id === current.followUp!.parentId);
+    if (!parent) break;
+    current = parent;
+  }
+  return current;
+};
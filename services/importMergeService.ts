@@ -0,0 +1,44 @@
+import { ExtractedAnswer, ExtractedAnswers, ImportConflict } from "../types";
+
+export interface FileExtraction {
+  fileName: string;
+  extracted: ExtractedAnswers;
+}
+
+const normalise = (text: string): string =>
+  text.toLowerCase().replace(/[\s\p{P}\p{S}]/gu, "");
+
+// Combine what several files gave for the same question. Copies of one answer, or one answer
+// that contains another (an overlapping photo of the same page), settle themselves on the
+// longer text; genuinely different answers become a conflict for the user to resolve.
+export const mergeFileExtractions = (files: FileExtraction[]): { merged: ExtractedAnswers; conflicts: ImportConflict[] } => {
+  const byQuestion = new Map<number, ExtractedAnswer[]>();
+  files.forEach(({ fileName, extracted }) => {
+    Object.keys(extracted).map(Number).forEach(id => {
+      const item = extracted[id];
+      if (!item.answer.trim()) return;
+      byQuestion.set(id, [...(byQuestion.get(id) || []), { ...item, fileName }]);
+    });
+  });
+
+  const merged: ExtractedAnswers = {};
+  const conflicts: ImportConflict[] = [];
+  byQuestion.forEach((candidates, id) => {
+    const distinct: ExtractedAnswer[] = [];
+    [...candidates]
+      .sort((a, b) => b.answer.length - a.answer.length)
+      .forEach(candidate => {
+        const key = normalise(candidate.answer);
+        if (!distinct.some(kept => normalise(kept.answer).includes(key))) distinct.push(candidate);
+      });
+    // Keep file order for the side-by-side view
+    distinct.sort((a, b) => candidates.indexOf(a) - candidates.indexOf(b));
+    merged[id] = distinct[0];
+    if (distinct.length > 1) conflicts.push({ questionId: id, candidates: distinct });
+  });
+  return { merged, conflicts };
+};
+
+// "Keep both": every kept answer, in file order, one paragraph each
+export const joinCandidates = (candidates: ExtractedAnswer[]): string =>
+  candidates.map(candidate => candidate.answer.trim()).join("\n\n");
@@ -0,0 +1,181 @@
+import { JournalEntry, JournalExcerpt, JournalSuggestions, Question } from "../types";
+import { toDateKey } from "./pacedService";
+
+// Journal import, all on this device: a Day One JSON export or a folder of dated Markdown notes
+// (an Obsidian vault's daily notes). Entries are matched to questions by topic rather than wording,
+// since a diary says "landed in Lisbon", not "cities I visited".
+
+const MAX_EXCERPTS = 5;
+const EXCERPT_LENGTH = 180;
+// How much of a long paragraph to keep before the first topic word
+const EXCERPT_LEAD = 40;
+
+const DATE_IN_NAME = /((?:19|20)\d{2})[-_.年]?(\d{1,2})[-_.月]?(\d{1,2})/;
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+const FRONTMATTER_DATE = /^(?:date|created|day)\s*:\s*["']?((?:19|20)\d{2})-(\d{1,2})-(\d{1,2})/m;
+
+interface Topic {
+  question: RegExp; // a question about this, in either language
+  entry: RegExp; // words in an entry that make it relevant
+  travel?: boolean; // entries written away from home count as well
+}
+
+const TOPICS: Topic[] = [
+  {
+    question: /城市|国家|旅行|去了哪|cities|countries|travel|visit/i,
+    entry: /旅行|旅游|出发|机场|航班|飞机|高铁|酒店|民宿|景点|自驾|出差|trip|travel|flight|airport|hotel|vacation/i,
+    travel: true,
+  },
+  { question: /生日|birthday/i, entry: /生日|蛋糕|birthday|cake/i },
+  {
+    question: /成就|achievement|proud/i,
+    entry: /完成了|做到了|终于|升职|加薪|录取|通过了|拿到|获奖|上线|发布|毕业|achieved|finally|promoted|accepted|passed|launched|shipped|graduated|proud/i,
+  },
+  {
+    question: /失败|困难|挫折|fail|struggle/i,
+    entry: /失败|搞砸|没通过|被拒|崩溃|焦虑|压力|failed|rejected|messed up|struggled|stressed|anxious|overwhelmed/i,
+  },
+  {
+    question: /病|受伤|健康|\bill\b|injur|sick/i,
+    entry: /生病|发烧|感冒|医院|看病|受伤|手术|住院|sick|\bill\b|fever|hospital|doctor|injured|surgery|\bflu\b/i,
+  },
+  { question: /生孩子|宝宝|baby/i, entry: /出生|宝宝|婴儿|怀孕|满月|baby|born|pregnant|newborn/i },
+  { question: /去世|离世|pass(?:ed)? away|died/i, entry: /去世|离世|葬礼|追悼|passed away|funeral|died/i },
+  { question: /买|bought|buy/i, entry: /买了|入手|下单|bought|ordered|purchased/i },
+  { question: /钱|money|spend|spent/i, entry: /花了|房租|账单|存款|rent|bills?\b|spent|paid/i },
+  { question: /歌|音乐|song|music/i, entry: /歌|音乐|专辑|演唱会|单曲循环|song|music|album|concert|playlist/i },
+  { question: /书|阅读|book|\bread\b/i, entry: /读完|在读|《[^》]+》|book|finished reading|novel/i },
+  { question: /电影|movie|film/i, entry: /电影|影院|movie|film|cinema/i },
+  { question: /电视|剧|\bTV\b/i, entry: /剧|综艺|episode|series|season|netflix/i },
+  { question: /吃|饭|meal|food/i, entry: /吃了|餐厅|好吃|晚饭|午饭|火锅|dinner|lunch|restaurant|delicious|meal/i },
+  { question: /爱河|恋爱|in love/i, entry: /喜欢上|恋爱|约会|表白|心动|in love|dating|crush/i },
+  { question: /节假日|假期|holiday/i, entry: /春节|过年|国庆|中秋|假期|圣诞|christmas|thanksgiving|new year|holiday/i },
+  { question: /新认识|相遇|new people|\bmet\b/i, entry: /认识了|第一次见|新朋友|\bmet\b|new friend/i },
+  { question: /想念|\bmiss/i, entry: /想念|思念|好久没见|\bmiss(?:ed)?\b/i },
+  { question: /从未做过|第一次|never done|first time/i, entry: /第一次|头一回|从来没|first time|never before/i },
+  { question: /兴奋|excited/i, entry: /兴奋|激动|太棒了|excited|thrilled|can't wait/i },
+  { question: /经验|学到|lesson|learn/i, entry: /学到|明白了|意识到|教训|learned|realised|realized|lesson/i },
+];
+
+const toDate = (year: string, month: string, day: string): string | null => {
+  const m = Number(month);
+  const d = Number(day);
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+  return `${year}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+};
+
+// Markdown down to what was written: links, embeds, emphasis and Day One's escapes removed
+const cleanMarkdown = (text: string): string =>
+  text
+    .replace(FRONTMATTER, "")
+    .replace(/!\[\[[^\]]*\]\]|!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[\[(?:[^\]|]*\|)?([^\]]*)\]\]/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^[ \t]*(?:#{1,6}[ \t]+|>[ \t]?|[-*+][ \t]+\[[ xX]\][ \t]*)/gm, "")
+    .replace(/\*\*|__|~~/g, "")
+    .replace(/\\([^\w\s])/g, "$1")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+// A Markdown note is a journal entry when its file name or frontmatter has a date
+const readMarkdownNote = (name: string, text: string): JournalEntry | null => {
+  const frontmatter = text.match(FRONTMATTER)?.[1] || "";
+  const match = frontmatter.match(FRONTMATTER_DATE) || name.split("/").pop()!.match(DATE_IN_NAME);
+  const date = match ? toDate(match[1], match[2], match[3]) : null;
+  const body = cleanMarkdown(text);
+  return date && body ? { date, text: body } : null;
+};
+
+// Day One's JSON export: { entries: [{ creationDate, text, location: { localityName } }] }
+const readDayOneExport = (data: unknown): JournalEntry[] | null => {
+  const entries = (data as { entries?: unknown })?.entries;
+  if (!Array.isArray(entries)) return null;
+  return entries.flatMap(entry => {
+    const created = new Date(entry?.creationDate);
+    const text = typeof entry?.text === "string" ? cleanMarkdown(entry.text) : "";
+    if (isNaN(created.getTime()) || !text) return [];
+    const place = entry.location?.localityName || entry.location?.placeName;
+    return [{ date: toDateKey(created), text, ...(place ? { place: String(place) } : {}) }];
+  });
+};
+
+// Every dated entry among the picked files (a whole folder, when picked as one). Hidden folders such
+// as .obsidian and notes without a date are passed over. Oldest first.
+export const readJournalFiles = async (files: File[]): Promise<JournalEntry[]> => {
+  const entries: JournalEntry[] = [];
+  for (const file of files) {
+    const path = file.webkitRelativePath || file.name;
+    if (/(^|\/)\./.test(path)) continue;
+    if (/\.json$/i.test(path)) {
+      try {
+        entries.push(...(readDayOneExport(JSON.parse(await file.text())) || []));
+      } catch (error) {
+        console.warn(`Skipping ${path}`, error);
+      }
+    } else if (/\.(md|markdown|txt)$/i.test(path)) {
+      const entry = readMarkdownNote(path, await file.text());
+      if (entry) entries.push(entry);
+    }
+  }
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const countTopicWords = (text: string, topics: Topic[]): { count: number; first: number } => {
+  let count = 0;
+  let first = -1;
+  topics.forEach(topic => {
+    const found = new Set<string>();
+    for (const match of text.matchAll(new RegExp(topic.entry.source, "gi"))) {
+      found.add(match[0].toLowerCase());
+      if (first < 0 || match.index! < first) first = match.index!;
+    }
+    count += found.size;
+  });
+  return { count, first };
+};
+
+const trimExcerpt = (paragraph: string, first: number): string => {
+  if (paragraph.length <= EXCERPT_LENGTH) return paragraph;
+  const start = Math.max(0, Math.min(first - EXCERPT_LEAD, paragraph.length - EXCERPT_LENGTH));
+  const end = start + EXCERPT_LENGTH;
+  return `${start > 0 ? "…" : ""}${paragraph.slice(start, end).trim()}${end < paragraph.length ? "…" : ""}`;
+};
+
+// The most telling paragraph of an entry for these topics, or null when none mentions them
+const findExcerpt = (entry: JournalEntry, topics: Topic[], awayFromHome: boolean): JournalExcerpt | null => {
+  const paragraphs = entry.text.split(/\n+/).map(line => line.trim()).filter(Boolean);
+  let best = { paragraph: paragraphs[0] || "", count: 0, first: 0 };
+  paragraphs.forEach(paragraph => {
+    const { count, first } = countTopicWords(paragraph, topics);
+    if (count > best.count) best = { paragraph, count, first };
+  });
+  // An entry written in another town is about a trip even when it never says so
+  const score = best.count + (awayFromHome && topics.some(topic => topic.travel) ? 2 : 0);
+  if (score === 0) return null;
+  return { date: entry.date, ...(entry.place ? { place: entry.place } : {}), text: trimExcerpt(best.paragraph, best.first), score };
+};
+
+// Up to five excerpts from the year's entries for every question the topics cover, in date order.
+// Home is wherever most located entries were written.
+export const findJournalExcerpts = (entries: JournalEntry[], questions: Question[], year: number): JournalSuggestions => {
+  const yearEntries = entries.filter(entry => entry.date.startsWith(`${year}-`));
+  const placeCounts = new Map<string, number>();
+  yearEntries.forEach(entry => {
+    if (entry.place) placeCounts.set(entry.place, (placeCounts.get(entry.place) || 0) + 1);
+  });
+  const home = [...placeCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  const suggestions: JournalSuggestions = {};
+  questions.forEach(question => {
+    const topics = TOPICS.filter(topic => topic.question.test(question.text));
+    if (topics.length === 0) return;
+    const excerpts = yearEntries
+      .map(entry => findExcerpt(entry, topics, !!entry.place && entry.place !== home))
+      .filter((excerpt): excerpt is JournalExcerpt => !!excerpt)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_EXCERPTS)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    if (excerpts.length > 0) suggestions[question.id] = excerpts;
+  });
+  return suggestions;
+};
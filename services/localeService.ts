@@ -0,0 +1,28 @@
+import { Locale } from "../types";
+
+const UI_LOCALE_KEY = "yir40.locale";
+
+// Map any BCP 47 tag onto a supported locale: English for "en*", Chinese otherwise.
+export const resolveLocale = (tag: string | null | undefined): Locale =>
+  tag && /^en\b/i.test(tag) ? "en" : "zh-CN";
+
+export const loadUiLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(UI_LOCALE_KEY);
+    if (stored) return resolveLocale(stored);
+  } catch {
+    // Fall through to the browser language
+  }
+  return typeof navigator !== "undefined" ? resolveLocale(navigator.language) : "zh-CN";
+};
+
+export const saveUiLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(UI_LOCALE_KEY, locale);
+  } catch {
+    // Storage can be unavailable (private mode); switching still works for this visit.
+  }
+};
+
+// Long Cang only looks right for Chinese; Latin text gets Caveat, which runs smaller.
+export const getHandFont = (locale: Locale): string => (locale === "en" ? "font-hand" : "font-chinese-hand");
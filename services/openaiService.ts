@@ -1,6 +1,10 @@
 import OpenAI from "openai";
-import { Answers, Question, YearSummary } from "../types";
-import { QUESTIONS } from "../constants";
+import { AnswerAttachments, AnswerMetaMap, Answers, AnswerComparison, AnswerValues, ExtractedAnswers, JournalExcerpt, Locale, PairSession, Question, SummaryContent, SummaryTheme, TeamMember, YearSummary } from "../types";
+import { getCombinedFlow, getQuestionFlow } from "./followUpService";
+import { getAnswerStatus, hasAnswerText } from "./answerStatusService";
+import { getSummaryTheme } from "./summaryThemeService";
+import { parsePlainTextAnswers, toSnippet } from "./answerParserService";
+import { shuffleForQuestion } from "./teamService";
 
 // Resolve env vars at module init so Vite injects .env.local values at build/dev time.
 const metaEnv = (import.meta as any)?.env ?? {};
@@ -42,6 +46,17 @@ const MODEL =
   globalEnv.OPENAI_MODEL ||
   "glm-4-flash";
 
+// Optional vision-capable model (e.g. glm-4v-flash). When set, photos and sketches attached
+// to answers are described by it and the descriptions join the summary transcript.
+const VISION_MODEL =
+  metaEnv.VITE_OPENAI_VISION_MODEL ||
+  metaEnv.OPENAI_VISION_MODEL ||
+  nodeEnv?.VITE_OPENAI_VISION_MODEL ||
+  nodeEnv?.OPENAI_VISION_MODEL ||
+  globalEnv.VITE_OPENAI_VISION_MODEL ||
+  globalEnv.OPENAI_VISION_MODEL ||
+  "";
+
 const getModel = () => MODEL;
 
 const sanitizeBaseURL = (url: string): string => {
@@ -107,37 +122,30 @@ const decodeBase64ToText = (base64: string): string => {
   }
 };
 
-const buildFallbackAnswers = (text: string): Answers => {
+const buildFallbackAnswers = (text: string, questions: Question[]): ExtractedAnswers => {
   const clean = text?.trim();
-  if (!clean) return {};
-  // Place entire content under Q1 as a minimal fallback so the app can proceed.
-  return { 1: clean };
+  if (!clean || questions.length === 0) return {};
+  // Place entire content under the first question as a minimal fallback so the app can proceed.
+  return { [questions[0].id]: { answer: clean, method: "fallback", source: toSnippet(clean) } };
 };
 
-// Parse plain text following the demo format: "1. Question\n\nAnswer\n\n2. ..."
-const parsePlainTextAnswers = (text: string): Answers => {
-  if (!text) return {};
-  const cleaned = text.replace(/\r\n/g, "\n");
-
-  const regex =
-    /(?:^|\n)(\d{1,2})\.\s*[^\n]*\n+([\s\S]*?)(?=(?:\n\d{1,2}\.\s|\nPart\s*\d+\.)|$)/g;
+// The plain answers, for everything downstream of the import review
+export const toAnswers = (extracted: ExtractedAnswers): Answers => {
   const answers: Answers = {};
-
-  let match: RegExpExecArray | null;
-  while ((match = regex.exec(cleaned)) !== null) {
-    const id = Number(match[1]);
-    if (!id || id < 1 || id > 40) continue;
-    const answer = match[2].trim();
-    if (answer) {
-      answers[id] = answer;
-    }
-  }
-
+  Object.entries(extracted).forEach(([key, item]) => {
+    if (item.answer.trim()) answers[Number(key)] = item.answer;
+  });
   return answers;
 };
 
-export const getInspiration = async (question: Question): Promise<string> => {
+const INSPIRATION_STYLE: Record<Locale, { length: string; fallback: string; errorFallback: string }> = {
+  "zh-CN": { length: "Keep it under 20 Chinese characters", fallback: "闭上眼睛，答案就在呼吸之间...", errorFallback: "听听心底的声音..." },
+  en: { length: "Write in English and keep it under 12 words", fallback: "Close your eyes; the answer is in your breath...", errorFallback: "Listen to the quiet voice inside..." },
+};
+
+export const getInspiration = async (question: Question, locale: Locale = "zh-CN"): Promise<string> => {
   const model = getModel();
+  const style = INSPIRATION_STYLE[locale];
   try {
     const response = await getClient().chat.completions.create({
       model,
@@ -146,7 +154,7 @@ export const getInspiration = async (question: Question): Promise<string> => {
         {
           role: "system",
           content:
-            "You are a close friend offering tiny, poetic nudges. Keep it under 20 Chinese characters, no quotes or prefacing.",
+            `You are a close friend offering tiny, poetic nudges. ${style.length}, no quotes or prefacing.`,
         },
         {
           role: "user",
@@ -156,135 +164,525 @@ export const getInspiration = async (question: Question): Promise<string> => {
     });
 
     const text = getTextFromContent(response.choices[0]?.message?.content || "");
-    return text.replace(/["“”]/g, "") || "闭上眼睛，答案就在呼吸之间...";
+    return text.replace(/["“”]/g, "") || style.fallback;
   } catch (error) {
     console.error("OpenAI Inspiration Error:", error);
-    return "听听心底的声音...";
+    return style.errorFallback;
   }
 };
 
-export const extractAnswersFromData = async (base64Data: string, mimeType: string): Promise<Answers> => {
-  const questionsList = QUESTIONS.map(q => `${q.id}. ${q.text}`).join("\n");
-  const model = getModel();
-  
-  const prompt = `
-    Task: Extract answers from the provided user document (which may be an image, PDF, or text).
+const JOURNAL_DRAFT_STYLE: Record<Locale, string> = {
+  "zh-CN": "Write in Chinese, first person ('我'), plain and concrete, under 80 characters",
+  en: "Write in English, first person ('I'), plain and concrete, under 50 words",
+};
+
+// Condense the journal passages picked for a question into a short draft answer in the user's own voice.
+// Only these excerpts are sent, never the whole journal. Throws when the model can't be reached.
+export const draftAnswerFromJournal = async (
+  question: Question,
+  excerpts: JournalExcerpt[],
+  locale: Locale = "zh-CN"
+): Promise<string> => {
+  const passages = excerpts.map(excerpt => `[${excerpt.date}${excerpt.place ? `, ${excerpt.place}` : ""}] ${excerpt.text}`).join("\n");
+  const response = await getClient().chat.completions.create({
+    model: getModel(),
+    temperature: 0.4,
+    messages: [
+      {
+        role: "system",
+        content: `You turn diary passages into a draft answer to a year-review question. ${JOURNAL_DRAFT_STYLE[locale]}. Only use facts stated in the passages; leave out passages that don't answer the question. No quotes, headings or prefacing.`,
+      },
+      {
+        role: "user",
+        content: `Question: "${question.text}"\n\nDiary passages:\n${passages}`,
+      },
+    ],
+  });
+  const text = getTextFromContent(response.choices[0]?.message?.content || "").trim();
+  if (!text) throw new Error("No response from AI");
+  return text;
+};
+
+// Text already read on this device (plain text, Word, HTML): parsed without any model call
+export const extractAnswersFromText = (text: string, questions: Question[]): ExtractedAnswers => {
+  const parsed = parsePlainTextAnswers(text, questions);
+  if (Object.keys(parsed).length > 0) return parsed;
+  return buildFallbackAnswers(text, questions);
+};
+
+const buildExtractionPrompt = (questions: Question[], source: string): string => {
+  const questionsList = questions
+    .map(q => `${q.id}. ${q.text}${q.followUp ? ` (follow-up to question ${q.followUp.parentId}, often unanswered)` : ""}`)
+    .join("\n");
+  return `
+    Task: Extract answers from the provided ${source}.
     The document contains answers to a specific "Year in Review" questionnaire.
     
-    Here are the 40 Reference Questions:
+    Here are the ${questions.length} Reference Questions:
     ${questionsList}
 
     Instructions:
     1. Analyze the document to find answers corresponding to these questions.
     2. Map the answers to the correct Question ID.
-    3. Return a list of objects containing the Question ID and the Answer.
+    3. Return a list of objects containing the Question ID, the Answer, and how confident you are in both (0-1).
     4. If a question is not answered in the document, ignore it.
     
     Output Format: JSON.
   `;
+};
+
+const ANSWER_EXTRACTION_FORMAT = {
+  type: "json_schema",
+  json_schema: {
+    name: "answer_extraction",
+    schema: {
+      type: "object",
+      properties: {
+        list: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "number", description: "The Question ID from the reference list" },
+              answer: { type: "string", description: "The extracted answer text" },
+              confidence: { type: "number", description: "0-1: how sure you are of the reading and of the question it belongs to" },
+              source: { type: "string", description: "The words in the document the answer was read from, verbatim, at most two sentences" },
+            },
+            required: ["id", "answer"],
+          },
+        },
+      },
+      required: ["list"],
+    },
+  },
+} as const;
+
+interface ModelAnswer {
+  id: number;
+  answer: string;
+  confidence?: number;
+  source?: string;
+}
+
+// One extraction call. Returns null when the model's reply isn't valid JSON.
+const requestAnswerList = async (
+  content: OpenAI.Chat.Completions.ChatCompletionContentPart[],
+  questions: Question[]
+): Promise<ModelAnswer[] | null> => {
+  const validIds = new Set(questions.map(q => q.id));
+  const response = await getClient().chat.completions.create({
+    model: getModel(),
+    temperature: 0,
+    messages: [
+      {
+        role: "system",
+        content:
+          "You extract answers from the provided material and return ONLY valid JSON following the given schema.",
+      },
+      { role: "user", content },
+    ],
+    response_format: ANSWER_EXTRACTION_FORMAT,
+  });
+
+  const jsonText = cleanJsonString(
+    getTextFromContent(response.choices[0]?.message?.content || "")
+  );
+  if (!jsonText) throw new Error("No response text");
+
+  let result: any;
+  try {
+    result = JSON.parse(jsonText);
+  } catch (parseError) {
+    console.warn("Extraction JSON parse failed.", parseError);
+    return null;
+  }
+  return (Array.isArray(result.list) ? result.list : [])
+    .filter((item: any) => validIds.has(Number(item?.id)) && item.answer)
+    .map((item: any) => ({
+      id: Number(item.id),
+      answer: String(item.answer).trim(),
+      confidence: Number.isFinite(Number(item.confidence)) ? Number(item.confidence) : undefined,
+      source: item.source ? toSnippet(String(item.source)) : undefined,
+    }));
+};
+
+// Where pages overlap (an answer continued overleaf, a question read off two pages),
+// the more confident reading wins, and the longer one when confidence doesn't decide.
+const mergeExtractedAnswers = (lists: ModelAnswer[][]): ExtractedAnswers => {
+  const best = new Map<number, ModelAnswer>();
+  lists.flat().forEach(item => {
+    const current = best.get(item.id);
+    if (!current) {
+      best.set(item.id, item);
+      return;
+    }
+    const confidenceDiff = (item.confidence ?? 0.5) - (current.confidence ?? 0.5);
+    if (confidenceDiff > 0.15 || (Math.abs(confidenceDiff) <= 0.15 && item.answer.length > current.answer.length)) {
+      best.set(item.id, item);
+    }
+  });
+  const answers: ExtractedAnswers = {};
+  best.forEach(({ answer, confidence, source }, id) => {
+    answers[id] = { answer, method: "llm", confidence, source };
+  });
+  return answers;
+};
+
+// Long documents are read in overlapping chunks, so an answer cut at one boundary is whole in the next chunk
+const EXTRACTION_CHUNK_SIZE = 8000;
+const EXTRACTION_CHUNK_OVERLAP = 600;
+
+export type ExtractionProgress = (done: number, total: number) => void;
+
+// Chunks end at a paragraph or line break where there is one near the size limit
+const splitIntoChunks = (
+  text: string,
+  size: number = EXTRACTION_CHUNK_SIZE,
+  overlap: number = EXTRACTION_CHUNK_OVERLAP
+): string[] => {
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(text.length, start + size);
+    if (end < text.length) {
+      const window = text.slice(start + size / 2, end);
+      const paragraph = window.lastIndexOf("\n\n");
+      const line = window.lastIndexOf("\n");
+      const cut = paragraph >= 0 ? paragraph : line;
+      if (cut >= 0) end = start + size / 2 + cut;
+    }
+    chunks.push(text.slice(start, end));
+    if (end >= text.length) break;
+    start = Math.max(start + 1, end - overlap);
+  }
+  return chunks;
+};
+
+// Join two readings of an answer that runs across a chunk boundary, dropping the overlapping text
+const joinAcrossBoundary = (first: string, second: string): string => {
+  if (first.includes(second)) return first;
+  if (second.includes(first)) return second;
+  for (let length = Math.min(first.length, second.length, EXTRACTION_CHUNK_OVERLAP); length >= 8; length--) {
+    if (first.endsWith(second.slice(0, length))) return first + second.slice(length);
+  }
+  return `${first}\n${second}`;
+};
+
+// Unlike pages, chunks are one continuous text: an id seen in consecutive chunks is one answer
+// split by the boundary, so its parts are joined rather than competing.
+const mergeChunkAnswers = (lists: ModelAnswer[][]): ModelAnswer[] => {
+  const merged = new Map<number, ModelAnswer>();
+  lists.forEach(list =>
+    list.forEach(item => {
+      const current = merged.get(item.id);
+      merged.set(
+        item.id,
+        current
+          ? {
+              id: item.id,
+              answer: joinAcrossBoundary(current.answer, item.answer),
+              confidence: Math.min(current.confidence ?? 1, item.confidence ?? 1),
+              source: current.source || item.source,
+            }
+          : item
+      );
+    })
+  );
+  return [...merged.values()];
+};
+
+// documentText is text already read from the file on this device (a PDF's text layer). It is parsed
+// deterministically first, and only sent to the model, instead of the file, when that finds nothing.
+// pageImages are a scanned PDF's pages as image data URLs; each page is read on its own and the results merged.
+// onProgress reports model calls finished out of the total, for documents that need more than one.
+export const extractAnswersFromData = async (
+  base64Data: string,
+  mimeType: string,
+  questions: Question[],
+  documentText?: string,
+  pageImages?: string[],
+  onProgress?: ExtractionProgress
+): Promise<ExtractedAnswers> => {
+  if (pageImages?.length) {
+    const lists: ModelAnswer[][] = [];
+    onProgress?.(0, pageImages.length);
+    for (const [index, url] of pageImages.entries()) {
+      try {
+        const list = await requestAnswerList(
+          [
+            { type: "image_url", image_url: { url } },
+            { type: "text", text: buildExtractionPrompt(questions, `page ${index + 1} of ${pageImages.length} of a scanned, possibly handwritten questionnaire`) },
+          ],
+          questions
+        );
+        if (list) lists.push(list.map(item => ({ ...item, source: `p.${index + 1}${item.source ? `: ${item.source}` : ""}` })));
+      } catch (error) {
+        // One unreadable page shouldn't lose the others
+        console.error(`Extraction Error on page ${index + 1}`, error);
+      }
+      onProgress?.(index + 1, pageImages.length);
+    }
+    return mergeExtractedAnswers(lists);
+  }
 
   const isImage = mimeType?.startsWith("image/");
   const dataUrl = `data:${mimeType || "text/plain"};base64,${base64Data}`;
-  const textPayload = !isImage ? decodeBase64ToText(base64Data) : "";
-  const truncatedText = textPayload ? textPayload.slice(0, 8000) : "";
+  // A PDF's bytes decoded as UTF-8 are noise, so PDFs only ever contribute their text layer
+  const textPayload = documentText ?? (!isImage && mimeType !== "application/pdf" ? decodeBase64ToText(base64Data) : "");
 
   // For plain text uploads, skip LLM parsing and just return the raw content.
   if (!isImage && textPayload && mimeType?.startsWith("text/")) {
-    const parsed = parsePlainTextAnswers(textPayload);
-    if (Object.keys(parsed).length > 0) return parsed;
-    return buildFallbackAnswers(textPayload);
+    return extractAnswersFromText(textPayload, questions);
   }
 
-  try {
-    const response = await getClient().chat.completions.create({
-      model,
-      temperature: 0,
-      messages: [
-        {
-          role: "system",
-          content:
-            "You extract answers from the provided material and return ONLY valid JSON following the given schema.",
-        },
-        {
-          role: "user",
-          content: [
-            ...(isImage
-              ? [
-                  {
-                    type: "image_url",
-                    image_url: { url: dataUrl },
-                  } as const,
-                ]
-              : []),
-            {
-              type: "text",
-              text: `${prompt}\n\n${
-                truncatedText ? `Document (text or OCR expected):\n${truncatedText}` : ""
-              }`,
-            },
-          ],
-        },
-      ],
-      response_format: {
-        type: "json_schema",
-        json_schema: {
-          name: "answer_extraction",
-          schema: {
-            type: "object",
-            properties: {
-              list: {
-                type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    id: { type: "number", description: "The Question ID (1-40)" },
-                    answer: { type: "string", description: "The extracted answer text" },
-                  },
-                  required: ["id", "answer"],
-                },
-              },
-            },
-            required: ["list"],
-          },
-        },
-      },
-    });
+  if (documentText) {
+    const parsed = parsePlainTextAnswers(documentText, questions);
+    if (Object.keys(parsed).length > 0) return parsed;
+  }
 
-    const jsonText = cleanJsonString(
-      getTextFromContent(response.choices[0]?.message?.content || "")
-    );
-    if (!jsonText) throw new Error("No response text");
-    
-    let result: any;
+  const chunks = textPayload ? splitIntoChunks(textPayload) : [""];
+  const lists: ModelAnswer[][] = [];
+  let lastError: unknown = null;
+  onProgress?.(0, chunks.length);
+  for (const [index, chunk] of chunks.entries()) {
+    const part = chunks.length > 1 ? ` This is part ${index + 1} of ${chunks.length} of the document; an answer may start before or continue after it.` : "";
     try {
-      result = JSON.parse(jsonText);
-    } catch (parseError) {
-      console.warn("Extraction JSON parse failed, returning raw text.", parseError);
-      return buildFallbackAnswers(textPayload || jsonText);
+      const list = await requestAnswerList(
+        [
+          ...(isImage
+            ? [
+                {
+                  type: "image_url",
+                  image_url: { url: dataUrl },
+                } as const,
+              ]
+            : []),
+          {
+            type: "text",
+            text: `${buildExtractionPrompt(questions, "user document (which may be an image, PDF, or text)")}${part}\n\n${
+              chunk ? `Document (text or OCR expected):\n${chunk}` : ""
+            }`,
+          },
+        ],
+        questions
+      );
+      if (list) lists.push(list);
+      else console.warn(`Extraction JSON for part ${index + 1} could not be read.`);
+    } catch (error) {
+      console.error(`Extraction Error in part ${index + 1}`, error);
+      lastError = error;
     }
-    const answerList = result.list || [];
+    onProgress?.(index + 1, chunks.length);
+  }
 
-    // Convert list to map
-    const formattedAnswers: Answers = {};
-    answerList.forEach((item: any) => {
-      if (item.id && item.answer) {
-        formattedAnswers[item.id] = String(item.answer);
-      }
-    });
+  if (lists.length > 0) return mergeExtractedAnswers([mergeChunkAnswers(lists)]);
+  const fallback = buildFallbackAnswers(textPayload, questions);
+  if (Object.keys(fallback).length > 0) return fallback;
+  throw lastError || new Error("No answers extracted");
+};
 
-    return formattedAnswers;
+// English answers are split into names and titles (capitalised runs, quotes) rather than every word
+const DETAIL_PATTERNS: Record<Locale, RegExp> = {
+  "zh-CN": /[\u4e00-\u9fa5]{2,}|"[^"]+"|'[^']+'|[A-Za-z]+/g,
+  en: /"[^"]+"|“[^”]+”|\b[A-Z][\w'-]*(?:\s+[A-Z][\w'-]*)*/g,
+};
+const ENGLISH_STOPWORDS = new Set(["I", "My", "The", "This", "That", "It", "We", "And", "But", "So", "In", "On", "At", "A", "An", "Yes", "No", "Not", "Probably", "Maybe"]);
 
-  } catch (error) {
-    console.error("Extraction Error", error);
-    const fallback = buildFallbackAnswers(textPayload);
-    if (Object.keys(fallback).length > 0) return fallback;
-    throw error;
+// Appended to the summary prompt: the guidance above is written with Chinese output in mind.
+const SUMMARY_LANGUAGE_RULES: Record<Locale, string> = {
+  "zh-CN": "",
+  en: `
+    **OUTPUT LANGUAGE: ENGLISH** (this overrides the Chinese-specific guidance above)
+    - Write every title, card content, poem and analysis in natural, literary English, addressing the user as "you".
+    - Where the guidance mentions Chinese characters, Chinese titles or Chinese vocabulary, apply the same idea in English: card titles are 2-4 evocative words, card content is 50-80 words, the poem is 4 short lines, the analysis is 80-120 words.
+    - Keep the user's own names, places and titles exactly as they wrote them.
+  `,
+};
+
+// Up to this many pictures per question are sent to the vision model
+const MAX_IMAGES_PER_QUESTION = 3;
+
+// One short description per question with attachments. Failures only lose the descriptions,
+// never the summary, so every error is swallowed here.
+const describeAttachments = async (
+  attachments: AnswerAttachments,
+  questions: Question[],
+  locale: Locale
+): Promise<Record<number, string>> => {
+  const descriptions: Record<number, string> = {};
+  if (!VISION_MODEL) return descriptions;
+  for (const question of questions) {
+    const images = (attachments[question.id] || []).slice(0, MAX_IMAGES_PER_QUESTION);
+    if (images.length === 0) continue;
+    try {
+      const response = await getClient().chat.completions.create({
+        model: VISION_MODEL,
+        temperature: 0.3,
+        messages: [
+          {
+            role: "user",
+            content: [
+              ...images.map(image => ({ type: "image_url", image_url: { url: image.dataUrl } } as const)),
+              {
+                type: "text",
+                text: `These pictures were attached to the answer to "${question.text}" in a year-in-review journal. Describe what they show in one sentence, concretely (places, food, people, objects, text), ${locale === "en" ? "in English" : "in Chinese"}. No preface.`,
+              },
+            ],
+          },
+        ],
+      });
+      const text = getTextFromContent(response.choices[0]?.message?.content || "").trim();
+      if (text) descriptions[question.id] = text;
+    } catch (error) {
+      console.warn(`Describing the attachments of question ${question.id} failed`, error);
+    }
   }
+  return descriptions;
 };
 
-export const generateYearSummary = async (answers: Answers, questions: Question[]): Promise<YearSummary> => {
+// Offline fallback for English sessions: quote the user's own answers rather than templated prose.
+const buildEnglishFallbackSummary = (
+  categorizedAnswers: { [key: string]: { question: string; answer: string }[] },
+  uniqueDetails: string[]
+): YearSummary => {
+  const cardSpecs: { theme: SummaryTheme; title: string; keyword: string; style: SummaryContent["style"]; empty: string }[] = [
+    { theme: "journey", title: "Roads Taken", keyword: "Journey", style: "ticket", empty: "Some journeys happen without leaving home." },
+    { theme: "emotions", title: "Quiet Growth", keyword: "Growth", style: "paper", empty: "You changed in ways that are still settling." },
+    { theme: "tastes", title: "Small Joys", keyword: "Joy", style: "polaroid", empty: "The small pleasures were there, even unnamed." },
+    { theme: "future", title: "Next Pages", keyword: "Hope", style: "note", empty: "The next chapter is still unwritten." },
+  ];
+  const cards: SummaryContent[] = cardSpecs.map(({ theme, title, keyword, style, empty }) => {
+    const picks = categorizedAnswers[theme].slice(0, 2).map(a => a.answer.trim().replace(/[.!?]*$/, "."));
+    return { title, keyword, style, content: picks.length > 0 ? picks.join(" ") : empty };
+  });
+  const keywords = uniqueDetails.slice(0, 5);
+  return {
+    cards,
+    visualTags: keywords.length > 0 ? keywords : ["star", "heart", "camera", "book", "music"],
+    poem: `The year turned like a page,\n${keywords[0] || "Time"} still glowing in the margin.\nLooking back through the haze,\nyou keep on walking.`,
+    analysis: `This year you wrote your own story. ${cards.map(card => card.content).join(" ")} Every moment is a small light on the road you are still walking.`,
+    keyword: keywords[0]?.toUpperCase() || "LIFE",
+    animal: "Deer",
+  };
+};
+
+// Specific names, places and titles in a set of answers, used to steer the summary towards this user's year
+const extractDetails = (values: AnswerValues, texts: string[], locale: Locale): string[] => {
+  const details: string[] = [];
+  // List items are already the user's own named details
+  Object.values(values).forEach(value => {
+    if (Array.isArray(value)) {
+      value.forEach(item => {
+        if (item.trim() && !details.includes(item.trim())) details.push(item.trim());
+      });
+    }
+  });
+  texts.forEach(text => {
+    if (text.trim().length > 0) {
+      // Extract specific nouns, places, activities, etc.
+      const matches = text.match(DETAIL_PATTERNS[locale]) || [];
+      matches.forEach(detail => {
+        if (detail.trim().length > 1 && !details.includes(detail) && !ENGLISH_STOPWORDS.has(detail)) {
+          details.push(detail);
+        }
+      });
+    }
+  });
+  return details;
+};
+
+// Appended to the summary prompt for a pair session. The card schema stays the same; the four cards change meaning.
+const buildPairSummaryRules = (names: string[], sharedDetails: string[], locale: Locale): string => `
+    **JOINT REVIEW OF TWO PEOPLE: ${names.join(" AND ")}** (this overrides "the user" everywhere above)
+    - Every answer in the transcript is labelled with the name of the person who wrote it. Write to both of them together as ${locale === "en" ? '"you two"' : "“你们”"}, and name the person whenever a detail belongs to only one of them.
+    - Never give one person's answer to the other, and never merge two different answers into one.
+    - The 4 cards are, in this order:
+      1. Shared places: the places both of them mention, or where their journeys crossed this year (style "ticket").
+      2. Shared soundtrack: songs, books, shows and food both of them named, and what each brought into the other's year (style "polaroid").
+      3. Different lessons: what each of them learned, side by side and by name; the contrast is the point (style "paper").
+      4. The year ahead: where their hopes meet and where they pull in different directions (style "note").
+    - The poem, analysis, keyword and animal describe the pair's year together.
+${sharedDetails.length > 0 ? `    - Details both of them mentioned (start from these): ${sharedDetails.join(", ")}\n` : ""}`;
+
+// Appended for a team retro. Many people answered, and none of them may be identifiable in the result.
+const buildTeamSummaryRules = (size: number, sharedDetails: string[], locale: Locale): string => `
+    **TEAM REVIEW OF ${size} PEOPLE** (this overrides "the user" everywhere above)
+    - The transcript holds every team member's answers, anonymised and in no particular order. Write to the team as a whole, as ${locale === "en" ? '"you" (the team) or "we"' : "“你们”或“我们”"}.
+    - NEVER attribute anything to an individual: no "one of you", no "someone said", no counting people who gave an answer that only one person gave.
+    - Do not quote answers, not even briefly; synthesise what recurs. A detail only one person mentioned may only appear blended into a broader theme.
+    - The 4 cards are the team's journey (places, events), how the team felt and grew, what the team enjoyed, and what the team wants next; keep the usual styles.
+    - The poem, analysis, keyword and animal describe the team's year.
+${sharedDetails.length > 0 ? `    - Mentioned by several people (times mentioned): ${sharedDetails.join(", ")}\n` : ""}`;
+
+interface SummaryParticipant {
+  name: string; // empty for a solo review and for anonymised team members
+  answers: Answers;
+  values: AnswerValues;
+  meta: AnswerMetaMap;
+  attachments: AnswerAttachments;
+}
+
+// Who a summary is about. Pairs and teams reuse the personal prompt and card schema, with their own rules appended.
+type SummaryGroup = { kind: "solo" } | { kind: "pair"; names: string[] } | { kind: "team"; size: number };
+
+// A pair session passes both people's profiles; the answers, values, meta and attachments
+// arguments are then ignored in favour of the profiles.
+export const generateYearSummary = async (
+  answers: Answers,
+  questions: Question[],
+  values: AnswerValues = {},
+  meta: AnswerMetaMap = {},
+  locale: Locale = "zh-CN",
+  attachments: AnswerAttachments = {},
+  pair?: PairSession | null
+): Promise<YearSummary> =>
+  pair
+    ? summariseParticipants(
+        pair.profiles.map(profile => ({
+          name: profile.name,
+          answers: profile.answers,
+          values: profile.answerValues || {},
+          meta: profile.answerMeta || {},
+          attachments: profile.attachments || {},
+        })),
+        questions,
+        locale,
+        { kind: "pair", names: pair.names }
+      )
+    : summariseParticipants([{ name: "", answers, values, meta, attachments }], questions, locale, { kind: "solo" });
+
+// The team variant: every member's transcript, unlabelled, and a summary that speaks only for the team
+export const generateTeamSummary = async (
+  members: TeamMember[],
+  questions: Question[],
+  locale: Locale = "zh-CN"
+): Promise<YearSummary> =>
+  summariseParticipants(
+    members.map(member => ({
+      name: "",
+      answers: member.answers,
+      values: member.answerValues || {},
+      meta: member.answerMeta || {},
+      attachments: {},
+    })),
+    questions,
+    locale,
+    { kind: "team", size: members.length }
+  );
+
+const summariseParticipants = async (
+  participants: SummaryParticipant[],
+  questions: Question[],
+  locale: Locale,
+  group: SummaryGroup
+): Promise<YearSummary> => {
   // Prepare the transcript with detailed context
-  let transcript = "User's Year in Review:\n";
+  let transcript =
+    group.kind === "pair"
+      ? `${group.names.join(" and ")}'s Year in Review:\n`
+      : group.kind === "team"
+        ? `A Team's Year in Review (${group.size} people, answers anonymised and in no particular order):\n`
+        : "User's Year in Review:\n";
   
   // Categorize answers by type for better AI understanding
   const categorizedAnswers: { [key: string]: { question: string; answer: string }[] } = {
@@ -294,20 +692,49 @@ export const generateYearSummary = async (answers: Answers, questions: Question[
     future: []
   };
 
-  questions.forEach(q => {
-    const answer = answers[q.id] || "Skipped";
-    transcript += `[Category: ${q.category}] Q: ${q.text}\nA: ${answer}\n\n`;
-    
-    // Improved categorization logic for more accurate grouping
-    if (q.id === 1 || q.id === 5 || q.category.includes("足迹") || q.category.includes("旅行") || q.category.includes("城市")) {
-      categorizedAnswers.journey.push({ question: q.text, answer });
-    } else if (q.id === 16 || q.id === 18 || q.id === 37 || q.id === 39 || q.category.includes("情感") || q.category.includes("变化") || q.category.includes("成长") || q.category.includes("思念")) {
-      categorizedAnswers.emotions.push({ question: q.text, answer });
-    } else if (q.id === 17 || q.id === 24 || q.id === 25 || q.id === 26 || q.id === 27 || q.id === 28 || q.category.includes("旋律") || q.category.includes("娱乐") || q.category.includes("阅读") || q.category.includes("味蕾")) {
-      categorizedAnswers.tastes.push({ question: q.text, answer });
-    } else if (q.id === 6 || q.id === 19 || q.id === 32 || q.id === 40 || q.category.includes("愿望") || q.category.includes("期待") || q.category.includes("总结")) {
-      categorizedAnswers.future.push({ question: q.text, answer });
-    }
+  const flow = group.kind === "solo"
+    ? getQuestionFlow(questions, participants[0].answers)
+    : getCombinedFlow(questions, participants.map(p => p.answers));
+  // Declined questions keep their pictures out of the summary too
+  const pictureDescriptions = await Promise.all(
+    participants.map(p =>
+      describeAttachments(
+        p.attachments,
+        flow.filter(q => getAnswerStatus(q.id, p.answers, p.meta) !== "declined"),
+        locale
+      )
+    )
+  );
+  const themedTexts: string[][] = participants.map(() => []);
+  // Team members are listed in a different order for every question, so one person's answers can't be linked up
+  const indices = participants.map((_, index) => index);
+  const orderFor = (q: Question) =>
+    group.kind === "team" ? shuffleForQuestion(indices, q.id, index => `${index}:${participants[index].answers[q.id] || ""}`) : indices;
+
+  flow.forEach(q => {
+    const indent = q.followUp ? "  " : "";
+    const lines: string[] = [];
+    orderFor(q).forEach(index => {
+      const p = participants[index];
+      // Follow-ups are optional, so an unanswered one is left out rather than marked skipped
+      const status = getAnswerStatus(q.id, p.answers, p.meta);
+      const answer = hasAnswerText(status) ? (p.answers[q.id] || "").trim() : "";
+      if (q.followUp && !answer) return;
+      // Declined questions are named so the model knows to leave the topic alone
+      const shown = answer || (status === "declined" ? "[Declined: the user chose not to answer]" : "[No answer]");
+      const pictures = pictureDescriptions[index][q.id] ? `${indent}[Attached pictures${p.name ? ` from ${p.name}` : ""}] ${pictureDescriptions[index][q.id]}\n` : "";
+      lines.push(`${indent}${p.name ? `A (${p.name})` : "A"}: ${shown}\n${pictures}`);
+
+      const theme = getSummaryTheme(q);
+      if (theme && answer) {
+        categorizedAnswers[theme].push({ question: q.text, answer: p.name ? `${p.name}: ${answer}` : answer });
+        themedTexts[index].push(answer);
+      }
+    });
+    if (lines.length === 0) return;
+    transcript += q.followUp
+      ? `  [Follow-up to the question above] Q: ${q.text}\n${lines.join("")}\n`
+      : `[Category: ${q.category}] Q: ${q.text}\n${lines.join("")}\n`;
   });
 
   // Add categorized context to help AI generate more targeted cards
@@ -317,21 +744,31 @@ export const generateYearSummary = async (answers: Answers, questions: Question[
   categorizedContext += `--- Tastes (Joys, Preferences) ---\n${categorizedAnswers.tastes.map(a => `Q: ${a.question}\nA: ${a.answer}`).join("\n\n")}\n\n`;
   categorizedContext += `--- Future (Aspirations) ---\n${categorizedAnswers.future.map(a => `Q: ${a.question}\nA: ${a.answer}`).join("\n\n")}\n\n`;
 
+  // Structured answers (lists, choices, scales) are exact, so they go to the model as-is
+  let structuredContext = "";
+  questions.forEach(q => {
+    orderFor(q).forEach(index => {
+      const p = participants[index];
+      const value = p.values[q.id];
+      if (value !== undefined) structuredContext += `Q${q.id} (${q.answerType})${p.name ? ` [${p.name}]` : ""}: ${JSON.stringify(value)}\n`;
+    });
+  });
+
   // Create a list of unique, specific details from the user's answers to emphasize uniqueness
-  const uniqueDetails: string[] = [];
-  Object.values(categorizedAnswers).forEach(category => {
-    category.forEach(item => {
-      if (item.answer !== "Skipped" && item.answer.trim().length > 0) {
-        // Extract specific nouns, places, activities, etc.
-        const details = item.answer.match(/[\u4e00-\u9fa5]{2,}|"[^"]+"|'[^']+'|[A-Za-z]+/g) || [];
-        details.forEach(detail => {
-          if (detail.trim().length > 1 && !uniqueDetails.includes(detail)) {
-            uniqueDetails.push(detail);
-          }
-        });
-      }
+  const detailsByParticipant = participants.map((p, index) => extractDetails(p.values, themedTexts[index], locale));
+  const uniqueDetails = [...new Set(detailsByParticipant.flat())];
+  // For a pair or a team, what several people mention is the heart of the joint cards
+  const mentions = new Map<string, { detail: string; count: number }>();
+  detailsByParticipant.forEach(details => {
+    new Set(details.map(detail => detail.toLowerCase())).forEach(key => {
+      const entry = mentions.get(key) || { detail: details.find(d => d.toLowerCase() === key)!, count: 0 };
+      entry.count++;
+      mentions.set(key, entry);
     });
   });
+  const sharedDetails = group.kind === "solo"
+    ? []
+    : [...mentions.values()].filter(entry => entry.count > 1).sort((a, b) => b.count - a.count);
 
   const prompt = `
     You are a soulful writer and artist creating a scrapbooking kit for the user's year-end review. Your goal is to create a truly unique and personalized summary that perfectly captures this user's one-of-a-kind year.
@@ -387,6 +824,7 @@ export const generateYearSummary = async (answers: Answers, questions: Question[
          * **Surface-Level Recounting**: Merely listing events without abstract synthesis
          * **Generic Statements**: Phrases that could apply to anyone
          * **Assumptions**: Content not explicitly supported by the user's answers
+         * **Declined Topics**: Anything about a question answered "[Declined: ...]" — do not mention, guess or hint at it
          * **Repetition**: Using the same details across multiple cards
          * **Over-Simplification**: Undeveloped narratives lacking depth or insight
        - **MANDATORY EVIDENCE**: Each card must highlight different unique details such as:
@@ -449,9 +887,15 @@ export const generateYearSummary = async (answers: Answers, questions: Question[
     ${uniqueDetails.slice(0, 15).join(", ")}\n\n
     Categorized Context (to help create targeted summary cards):
     ${categorizedContext}
-
+${structuredContext ? `
+    Structured Answers (exact values the user picked or listed):
+    ${structuredContext}
+` : ""}
     Full Transcript of User's Answers:
     ${transcript}
+${SUMMARY_LANGUAGE_RULES[locale]}
+${group.kind === "pair" ? buildPairSummaryRules(group.names, sharedDetails.slice(0, 10).map(entry => entry.detail), locale) : ""}
+${group.kind === "team" ? buildTeamSummaryRules(group.size, sharedDetails.slice(0, 15).map(entry => `${entry.detail} (${entry.count})`), locale) : ""}
   `;
 
   try {
@@ -514,13 +958,14 @@ export const generateYearSummary = async (answers: Answers, questions: Question[
 
   } catch (error) {
     console.error("Summary Generation Error", error);
+    if (locale === "en") return buildEnglishFallbackSummary(categorizedAnswers, uniqueDetails);
     // 创建基于用户实际回答的个性化Fallback，避免内容同质化
     // 从用户回答中提取一些关键词
     const extractedKeywords = uniqueDetails.slice(0, 5);
-    const hasJourney = categorizedAnswers.journey.some(a => a.answer !== "Skipped");
-    const hasEmotions = categorizedAnswers.emotions.some(a => a.answer !== "Skipped");
-    const hasTastes = categorizedAnswers.tastes.some(a => a.answer !== "Skipped");
-    const hasFuture = categorizedAnswers.future.some(a => a.answer !== "Skipped");
+    const hasJourney = categorizedAnswers.journey.length > 0;
+    const hasEmotions = categorizedAnswers.emotions.length > 0;
+    const hasTastes = categorizedAnswers.tastes.length > 0;
+    const hasFuture = categorizedAnswers.future.length > 0;
     
     // 文学化词汇替换表
     const literaryVocab: { [key: string]: string } = {
@@ -647,7 +1092,7 @@ export const generateYearSummary = async (answers: Answers, questions: Question[
     
     // 从用户回答中提取并抽象关键信息，进行系统性总结
     const getRichContent = (category: any[]) => {
-      const validAnswers = category.filter(a => a.answer !== "Skipped" && a.answer.trim().length > 0);
+      const validAnswers = category.filter(a => a.answer.trim().length > 0);
       if (validAnswers.length === 0) return "";
       
       // 系统性分析：识别核心主题和模式
@@ -837,7 +1282,7 @@ export const generateYearSummary = async (answers: Answers, questions: Question[
     
     // 根据新的prompt要求，创建四个专门的卡片生成器
     const generateCard1 = (answers: any[]) => {
-      const validAnswers = answers.filter(a => a.answer !== "Skipped" && a.answer.trim().length > 0);
+      const validAnswers = answers.filter(a => a.answer.trim().length > 0);
       if (validAnswers.length === 0) return { title: "向北启程", content: "这一年，你在时光的河流中静静探索。那些未被记录的尝试与相遇，都化作温暖的养分，在未来的日子里悄然绽放。新的征程即将开启，愿你带着勇气与希望，继续书写属于自己的浪漫故事。", keyword: "GROWTH", style: "ticket" as const };
       
       // 提取关键信息：Q1(新尝试), Q5(地点), Q7(铭记时刻), Q8(成就), Q18(自我认识), Q29(自我认识)
@@ -926,7 +1371,7 @@ export const generateYearSummary = async (answers: Answers, questions: Question[
     };
 
     const generateCard2 = (answers: any[]) => {
-      const validAnswers = answers.filter(a => a.answer !== "Skipped" && a.answer.trim().length > 0);
+      const validAnswers = answers.filter(a => a.answer.trim().length > 0);
       if (validAnswers.length === 0) return { title: "心有所依", content: "这一年，你的心始终被温柔包围着。那些未曾说出口的牵挂，那些默默陪伴的时光，都化作生命中最柔软的力量，在岁月里静静流淌，温暖着每一个晨昏。", keyword: "EMOTIONS", style: "paper" as const };
       
       // 提取关键信息：Q3(重要变化), Q4(最大改变), Q13(感谢的人), Q22(爱), Q37(思念的人), Q38(联系频率)
@@ -1000,7 +1445,7 @@ export const generateYearSummary = async (answers: Answers, questions: Question[
     };
 
     const generateCard3 = (answers: any[]) => {
-      const validAnswers = answers.filter(a => a.answer !== "Skipped" && a.answer.trim().length > 0);
+      const validAnswers = answers.filter(a => a.answer.trim().length > 0);
       if (validAnswers.length === 0) return { title: "烟火人间", content: "这一年，你在烟火日常里酿出生活的诗意。那些关于美食、音乐与书的小确幸，如同星子般点亮你的晨昏，让每一个平凡的日子都泛着温暖的光。", keyword: "TASTES", style: "note" as const };
       
       // 提取关键信息：Q12(好物), Q15(消费), Q21(生活方式), Q24(书), Q25(电影), Q26(音乐), Q27(美食), Q28(城市), Q31(生日), Q33(风格)
@@ -1087,7 +1532,7 @@ export const generateYearSummary = async (answers: Answers, questions: Question[
     };
 
     const generateCard4 = (answers: any[]) => {
-      const validAnswers = answers.filter(a => a.answer !== "Skipped" && a.answer.trim().length > 0);
+      const validAnswers = answers.filter(a => a.answer.trim().length > 0);
       if (validAnswers.length === 0) return { title: "笃定前行", content: "新的一年即将到来，你带着满满的期待与勇气，准备迎接新的挑战。那些未实现的愿望，那些想要改变的地方，都将成为你前进的动力。愿你在新的旅程中，保持初心，笃定前行。", keyword: "FUTURE", style: "polaroid" as const };
       
       // 提取关键信息：Q6(明年想要), Q19(做更多), Q20(做更少), Q30(没得到的), Q32(未发生的事), Q34(力量来源), Q40(一句话总结)
@@ -1851,3 +2296,56 @@ export const generateYearSummary = async (answers: Answers, questions: Question[
     };
   }
 };
+
+export const generateYearComparison = async (
+  comparisons: AnswerComparison[],
+  currentYear: number,
+  previousYear: number,
+  locale: Locale = "zh-CN"
+): Promise<string> => {
+  const changed = comparisons.filter(c => c.status !== "unchanged" && c.status !== "unanswered");
+  const transcript = comparisons
+    .filter(c => c.status !== "unanswered")
+    .map(c => `Q: ${c.question.text}\n${previousYear}: ${c.previous || "[No answer]"}\n${currentYear}: ${c.current || "[No answer]"}`)
+    .join("\n\n");
+
+  try {
+    const response = await getClient().chat.completions.create({
+      model: getModel(),
+      temperature: 0.7,
+      messages: [
+        {
+          role: "system",
+          content:
+            locale === "en"
+              ? "You are a warm, perceptive friend. Write in English, second person ('you'), one paragraph of 60-90 words, no headings or lists."
+              : "You are a warm, perceptive friend. Write in Chinese, second person ('你'), one paragraph of 100-150 characters, no headings or lists.",
+        },
+        {
+          role: "user",
+          content: `The user answered the same reflection questions in ${previousYear} and ${currentYear}. Describe what changed between the two years: new places, different favourites, shifts in mood or values. Only mention changes that are explicitly supported by the answers.\n\n${transcript}`,
+        },
+      ],
+    });
+
+    const text = getTextFromContent(response.choices[0]?.message?.content || "").trim();
+    if (!text) throw new Error("No response from AI");
+    return text;
+  } catch (error) {
+    console.error("Comparison Generation Error", error);
+    // Fallback: a plain summary built from the local diff
+    const added = changed.flatMap(c => c.added).slice(0, 5);
+    if (locale === "en") {
+      const flips = changed.flatMap(c => c.flips.map(f => `from "${f.from}" to "${f.to}"`));
+      let text = `Compared with ${previousYear}, ${changed.length} of your answers changed this year. `;
+      if (added.length > 0) text += `New this time: ${added.join(", ")}. `;
+      if (flips.length > 0) text += `You went ${flips.join(", ")}. `;
+      return text + "Every difference is a step you took.";
+    }
+    const flips = changed.flatMap(c => c.flips.map(f => `从“${f.from}”到“${f.to}”`));
+    let text = `和${previousYear}年相比，这一年你有 ${changed.length} 个回答发生了变化。`;
+    if (added.length > 0) text += `新出现的有：${added.join("、")}。`;
+    if (flips.length > 0) text += `你${flips.join("，")}。`;
+    return text + "每一处不同，都是你走过的路。";
+  }
+};
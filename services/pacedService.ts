@@ -0,0 +1,89 @@
+import { AnswerMetaMap, Answers, PacedPlan, Question } from "../types";
+import { getAnswerStatus } from "./answerStatusService";
+import { getMainQuestions } from "./followUpService";
+
+export const PER_DAY_OPTIONS = [2, 3, 5];
+export const DEFAULT_REMINDER_TIME = "20:00";
+
+// Extra days before the end date, so a few missed evenings don't cut the review short
+const GRACE_DAYS = 7;
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export const toDateKey = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Day arithmetic goes through UTC so daylight-saving changes never make a day 23 or 25 hours long
+const toUtcDay = (key: string): number => {
+  const [year, month, day] = key.split("-").map(Number);
+  return Date.UTC(year, month - 1, day) / 86_400_000;
+};
+
+const addDays = (key: string, days: number): string => {
+  const date = new Date((toUtcDay(key) + days) * 86_400_000);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+export const daysBetween = (from: string, to: string): number => toUtcDay(to) - toUtcDay(from);
+
+export const getDaysNeeded = (questions: Question[], perDay: number): number =>
+  Math.max(1, Math.ceil(getMainQuestions(questions).length / perDay));
+
+// Skipped and declined questions count as dealt with, the same as answered ones
+const isSettled = (id: number, answers: Answers, meta: AnswerMetaMap): boolean => !!getAnswerStatus(id, answers, meta);
+
+export const getOpenQuestions = (questions: Question[], answers: Answers, meta: AnswerMetaMap): Question[] =>
+  getMainQuestions(questions).filter(q => !isSettled(q.id, answers, meta));
+
+const nextQuestionIds = (plan: PacedPlan, questions: Question[], answers: Answers, meta: AnswerMetaMap, exclude: number[] = []): number[] =>
+  getOpenQuestions(questions, answers, meta)
+    .filter(q => !exclude.includes(q.id))
+    .slice(0, plan.perDay)
+    .map(q => q.id);
+
+export const createPacedPlan = (questions: Question[], perDay: number, today: string = toDateKey()): PacedPlan => ({
+  perDay,
+  startDate: today,
+  endDate: addDays(today, getDaysNeeded(questions, perDay) - 1 + GRACE_DAYS),
+  batch: { date: "", questionIds: [] },
+  completedDays: [],
+});
+
+// A new day's batch is simply the next few open questions in pack order: missed days don't pile up
+// into a longer list, they push the remaining questions back (and the end date catches the rest).
+export const refreshBatch = (plan: PacedPlan, questions: Question[], answers: Answers, meta: AnswerMetaMap, today: string = toDateKey()): PacedPlan =>
+  plan.batch.date === today
+    ? plan
+    : { ...plan, batch: { date: today, questionIds: nextQuestionIds(plan, questions, answers, meta) } };
+
+// "Answer a few more": today's batch grows by another day's worth
+export const extendBatch = (plan: PacedPlan, questions: Question[], answers: Answers, meta: AnswerMetaMap): PacedPlan => ({
+  ...plan,
+  batch: { ...plan.batch, questionIds: [...plan.batch.questionIds, ...nextQuestionIds(plan, questions, answers, meta, plan.batch.questionIds)] },
+});
+
+export const isBatchDone = (plan: PacedPlan, answers: Answers, meta: AnswerMetaMap): boolean =>
+  plan.batch.questionIds.length > 0 && plan.batch.questionIds.every(id => isSettled(id, answers, meta));
+
+export const markBatchDone = (plan: PacedPlan, answers: Answers, meta: AnswerMetaMap): PacedPlan =>
+  isBatchDone(plan, answers, meta) && !plan.completedDays.includes(plan.batch.date)
+    ? { ...plan, completedDays: [...plan.completedDays, plan.batch.date] }
+    : plan;
+
+// Consecutive completed days up to today; today not being done yet doesn't break yesterday's streak
+export const getStreak = (plan: PacedPlan, today: string = toDateKey()): number => {
+  let day = plan.completedDays.includes(today) ? today : addDays(today, -1);
+  let streak = 0;
+  while (plan.completedDays.includes(day)) {
+    streak++;
+    day = addDays(day, -1);
+  }
+  return streak;
+};
+
+export const getDayNumber = (plan: PacedPlan, today: string = toDateKey()): number => daysBetween(plan.startDate, today) + 1;
+
+export const getTotalDays = (plan: PacedPlan): number => daysBetween(plan.startDate, plan.endDate) + 1;
+
+export const isPlanFinished = (plan: PacedPlan, questions: Question[], answers: Answers, meta: AnswerMetaMap, today: string = toDateKey()): boolean =>
+  getOpenQuestions(questions, answers, meta).length === 0 || today > plan.endDate;
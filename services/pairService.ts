@@ -0,0 +1,43 @@
+import { AnswerAttachments, Answers, PairSession, ParticipantProfile, WritingStatsMap } from "../types";
+import { mergeWritingStats } from "./writingStatsService";
+
+export const createPair = (names: [string, string]): PairSession => ({
+  names: [names[0].trim(), names[1].trim()],
+  profiles: [],
+});
+
+export const isPairComplete = (pair: PairSession): boolean => pair.profiles.length >= pair.names.length;
+
+// Whoever answers next; once both are done, the last one to answer
+export const getActiveName = (pair: PairSession): string =>
+  pair.names[Math.min(pair.profiles.length, pair.names.length - 1)];
+
+export const addProfile = (pair: PairSession, profile: Omit<ParticipantProfile, "name">): PairSession => ({
+  ...pair,
+  profiles: [...pair.profiles, { ...profile, name: getActiveName(pair) }],
+});
+
+// Both people's pictures, so either can be pinned to the joint board
+export const mergeProfileAttachments = (profiles: ParticipantProfile[]): AnswerAttachments => {
+  const merged: AnswerAttachments = {};
+  profiles.forEach(profile => {
+    Object.entries(profile.attachments || {}).forEach(([key, list]) => {
+      const id = Number(key);
+      merged[id] = [...(merged[id] || []), ...list];
+    });
+  });
+  return merged;
+};
+
+// Both people's writing stats, with their answers side by side for the character counts,
+// so the joint board's stats describe the pair and not only whoever answered last
+export const mergeProfileWritingStats = (profiles: ParticipantProfile[]): { writingStats: WritingStatsMap; answers: Answers } => {
+  const answers: Answers = {};
+  profiles.forEach(profile => {
+    Object.entries(profile.answers).forEach(([key, text]) => {
+      const id = Number(key);
+      if (text.trim()) answers[id] = answers[id] ? `${answers[id]}\n${text}` : text;
+    });
+  });
+  return { writingStats: mergeWritingStats(profiles.map(profile => profile.writingStats || {})), answers };
+};
@@ -0,0 +1,129 @@
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+
+// Lines closer than this fraction of the font size are the same line; gaps wider than
+// this many line heights are treated as a paragraph break.
+const SAME_LINE_TOLERANCE = 0.5;
+const PARAGRAPH_GAP = 1.6;
+// Scanned pages are rendered this wide: enough for handwriting, small enough to send one per request
+const PAGE_IMAGE_WIDTH = 1400;
+const PAGE_IMAGE_QUALITY = 0.82;
+
+interface PositionedText {
+  text: string;
+  x: number;
+  y: number; // PDF space: larger is higher on the page
+  size: number;
+  width: number;
+}
+
+export const isPdfFile = (file: File): boolean => file.type === "application/pdf" || /\.pdf$/i.test(file.name);
+
+// pdf.js is large, so it is only loaded when a PDF is actually uploaded
+const loadPdfJs = async () => {
+  const [pdfjs, worker] = await Promise.all([import("pdfjs-dist"), import("pdfjs-dist/build/pdf.worker.min.mjs?url")]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+};
+
+const openPdf = async (data: ArrayBuffer) => {
+  const pdfjs = await loadPdfJs();
+  return pdfjs.getDocument({
+    data: new Uint8Array(data),
+    // Predefined CJK encodings, served with the app (see vite.config.ts); only needed for PDFs
+    // whose fonts don't map to Unicode themselves
+    cMapUrl: `${import.meta.env.BASE_URL}pdfjs-cmaps/`,
+    cMapPacked: true,
+  }).promise;
+};
+
+// Rebuild reading order from positions: the text layer lists runs in drawing order, which
+// for exported forms and templates is often not top-to-bottom.
+const layoutPage = (items: PositionedText[]): string => {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: { y: number; size: number; parts: PositionedText[] }[] = [];
+  sorted.forEach(item => {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - item.y) <= Math.max(line.size, item.size) * SAME_LINE_TOLERANCE) {
+      line.parts.push(item);
+    } else {
+      lines.push({ y: item.y, size: item.size, parts: [item] });
+    }
+  });
+
+  let text = "";
+  lines.forEach((line, index) => {
+    const parts = line.parts.sort((a, b) => a.x - b.x);
+    let lineText = "";
+    parts.forEach((part, i) => {
+      const previous = parts[i - 1];
+      // Separate runs with a visible gap between them, unless they are CJK, which has no spaces
+      const gap = previous ? part.x - (previous.x + previous.width) : 0;
+      if (previous && gap > part.size * 0.2 && !/[\u3000-\u9fff\uff00-\uffef]$/.test(lineText)) lineText += " ";
+      lineText += part.text;
+    });
+    if (index > 0) {
+      const distance = lines[index - 1].y - line.y;
+      text += distance > line.size * PARAGRAPH_GAP ? "\n\n" : "\n";
+    }
+    text += lineText.trimEnd();
+  });
+  return text;
+};
+
+// The text layer of every page, in page order. Scanned PDFs have no text layer and return "".
+export const extractPdfText = async (data: ArrayBuffer): Promise<string> => {
+  const doc = await openPdf(data);
+
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+      const page = await doc.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items = content.items
+        .filter((item): item is TextItem => "str" in item && !!item.str.trim())
+        .map(item => ({
+          text: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          size: Math.hypot(item.transform[2], item.transform[3]) || item.height || 10,
+          width: item.width,
+        }));
+      pages.push(layoutPage(items));
+      page.cleanup();
+    }
+    return pages.filter(Boolean).join("\n\n").trim();
+  } finally {
+    doc.destroy();
+  }
+};
+
+// Every page as a JPEG data URL, in page order, for reading scans with the vision model.
+// Pages are rendered one at a time on a single canvas to keep memory flat on long scans.
+export const renderPdfPages = async (data: ArrayBuffer): Promise<string[]> => {
+  const doc = await openPdf(data);
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not available");
+
+  try {
+    const images: string[] = [];
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+      const page = await doc.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const scaled = page.getViewport({ scale: PAGE_IMAGE_WIDTH / viewport.width });
+      canvas.width = Math.round(scaled.width);
+      canvas.height = Math.round(scaled.height);
+      // JPEG has no transparency; scans without a background would come out black
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvasContext: context, viewport: scaled }).promise;
+      images.push(canvas.toDataURL("image/jpeg", PAGE_IMAGE_QUALITY));
+      page.cleanup();
+    }
+    return images;
+  } finally {
+    canvas.width = 0;
+    canvas.height = 0;
+    doc.destroy();
+  }
+};
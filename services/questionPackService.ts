@@ -0,0 +1,301 @@
+import { AnswerField, AnswerType, FollowUpRule, Question, QuestionPack, QuestionPart, ScaleSpec, SummaryTheme } from "../types";
+import { BUILTIN_QUESTION_PACKS, DEFAULT_QUESTION_PACK } from "../constants";
+import { SUMMARY_THEMES } from "./summaryThemeService";
+import { getRootQuestion } from "./followUpService";
+
+const CUSTOM_PACKS_KEY = "yir40.customPacks";
+const ACTIVE_PACK_KEY = "yir40.activePackId";
+
+const ANSWER_TYPES: AnswerType[] = ["text", "short", "list", "choice", "scale", "fields"];
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+const parseOptions = (raw: unknown, where: string): string[] => {
+  const options = Array.isArray(raw) ? raw.filter(isNonEmptyString).map(o => o.trim()) : [];
+  if (options.length < 2) throw new Error(`${where} needs at least two \`options\`.`);
+  return options;
+};
+
+const parseScale = (raw: any, where: string): ScaleSpec => {
+  const min = Number(raw?.min);
+  const max = Number(raw?.max);
+  if (!Number.isFinite(min) || !Number.isFinite(max) || min >= max) {
+    throw new Error(`${where} needs a \`scale\` with min < max.`);
+  }
+  return {
+    min,
+    max,
+    minLabel: isNonEmptyString(raw.minLabel) ? raw.minLabel.trim() : undefined,
+    maxLabel: isNonEmptyString(raw.maxLabel) ? raw.maxLabel.trim() : undefined,
+  };
+};
+
+const parseField = (raw: any, where: string): AnswerField => {
+  if (!isNonEmptyString(raw?.id)) throw new Error(`${where} is missing an \`id\`.`);
+  const type = raw.type;
+  if (type !== "short" && type !== "choice" && type !== "scale") {
+    throw new Error(`${where} has unknown type "${type}".`);
+  }
+  return {
+    id: raw.id.trim(),
+    label: isNonEmptyString(raw.label) ? raw.label.trim() : raw.id.trim(),
+    type,
+    options: type === "choice" ? parseOptions(raw.options, where) : undefined,
+    scale: type === "scale" ? parseScale(raw.scale, where) : undefined,
+  };
+};
+
+// Only keep the settings that belong to the question's answer type.
+const parseAnswerSpec = (raw: any, id: number): Partial<Question> => {
+  const answerType = raw.answerType ?? "text";
+  if (!ANSWER_TYPES.includes(answerType)) throw new Error(`Question ${id} has unknown answerType "${answerType}".`);
+  const where = `Question ${id}`;
+  switch (answerType as AnswerType) {
+    case "choice":
+      return { answerType, options: parseOptions(raw.options, where) };
+    case "scale":
+      return { answerType, scale: parseScale(raw.scale, where) };
+    case "fields": {
+      if (!Array.isArray(raw.fields) || raw.fields.length === 0) throw new Error(`${where} needs at least one field.`);
+      return { answerType, fields: raw.fields.map((f: any, i: number) => parseField(f, `${where} fields[${i}]`)) };
+    }
+    case "text":
+      return {};
+    default:
+      return { answerType };
+  }
+};
+
+const parseFollowUp = (raw: any, id: number): FollowUpRule | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  const parentId = Number(raw.parentId);
+  if (!Number.isInteger(parentId) || parentId === id) throw new Error(`Question ${id} has an invalid followUp.parentId.`);
+  const when = raw.when ?? "yes";
+  if (when === "yes" || when === "no" || when === "answered") return { parentId, when };
+  if (Array.isArray(when) && when.length > 0 && when.every(isNonEmptyString)) {
+    return { parentId, when: when.map((o: string) => o.trim()) };
+  }
+  throw new Error(`Question ${id} has an invalid followUp.when; use "yes", "no", "answered" or a list of options.`);
+};
+
+// Follow-ups must hang off an existing question, without loops, and share its part.
+const resolveFollowUps = (questions: Question[]): Question[] => {
+  const byId = new Map(questions.map(q => [q.id, q]));
+  const findRoot = (question: Question): Question => {
+    const seen = new Set<number>([question.id]);
+    let current = question;
+    while (current.followUp) {
+      const parent = byId.get(current.followUp.parentId);
+      if (!parent) throw new Error(`Question ${current.id} follows up on unknown question ${current.followUp.parentId}.`);
+      if (seen.has(parent.id)) throw new Error(`Question ${question.id} is part of a follow-up loop.`);
+      seen.add(parent.id);
+      current = parent;
+    }
+    return current;
+  };
+  return questions.map(q => (q.followUp ? { ...q, part: findRoot(q).part } : q));
+};
+
+// Validate an untrusted JSON value against the pack format and normalise it.
+// Throws with a readable message so the UI can tell the author what to fix.
+export const parseQuestionPack = (raw: unknown): QuestionPack => {
+  if (!raw || typeof raw !== "object") throw new Error("Question pack must be a JSON object.");
+  const data = raw as Record<string, any>;
+
+  if (!isNonEmptyString(data.id)) throw new Error("Question pack is missing an `id`.");
+  if (!isNonEmptyString(data.title)) throw new Error("Question pack is missing a `title`.");
+  if (!Array.isArray(data.parts) || data.parts.length === 0) {
+    throw new Error("Question pack needs at least one entry in `parts`.");
+  }
+  if (!Array.isArray(data.questions) || data.questions.length === 0) {
+    throw new Error("Question pack needs at least one entry in `questions`.");
+  }
+
+  const parts: QuestionPart[] = data.parts.map((part: any, index: number) => {
+    const id = Number(part?.id);
+    if (!Number.isInteger(id) || id < 1) throw new Error(`parts[${index}] has an invalid id.`);
+    return { id, title: isNonEmptyString(part.title) ? part.title.trim() : "" };
+  });
+  const partIds = new Set(parts.map(p => p.id));
+
+  const seenIds = new Set<number>();
+  const questions: Question[] = data.questions.map((question: any, index: number) => {
+    const id = Number(question?.id);
+    if (!Number.isInteger(id) || id < 1) throw new Error(`questions[${index}] has an invalid id.`);
+    if (seenIds.has(id)) throw new Error(`Question id ${id} is used more than once.`);
+    const followUp = parseFollowUp(question.followUp, id);
+    // A follow-up's part is taken from its parent (see resolveFollowUps), so it may be left out
+    const part = Number(question?.part);
+    if (!followUp && !partIds.has(part)) throw new Error(`Question ${id} refers to unknown part ${question?.part}.`);
+    if (!isNonEmptyString(question.text)) throw new Error(`Question ${id} has no text.`);
+    seenIds.add(id);
+    return {
+      id,
+      part,
+      text: question.text.trim(),
+      category: isNonEmptyString(question.category) ? question.category.trim() : "",
+      ...parseAnswerSpec(question, id),
+      ...(followUp ? { followUp } : {}),
+      ...(SUMMARY_THEMES.includes(question.theme) ? { theme: question.theme as SummaryTheme } : {}),
+    };
+  });
+  const resolved = resolveFollowUps(questions);
+
+  const categories: string[] = Array.isArray(data.categories)
+    ? data.categories.filter(isNonEmptyString)
+    : [];
+  resolved.forEach(q => {
+    if (q.category && !categories.includes(q.category)) categories.push(q.category);
+  });
+
+  return {
+    id: data.id.trim(),
+    title: data.title.trim(),
+    description: isNonEmptyString(data.description) ? data.description.trim() : undefined,
+    locale: isNonEmptyString(data.locale) ? data.locale.trim() : "zh-CN",
+    version: isNonEmptyString(data.version) ? data.version.trim() : "1.0.0",
+    parts: parts.filter(p => resolved.some(q => q.part === p.id)),
+    categories,
+    questions: resolved,
+  };
+};
+
+export const readQuestionPackFile = async (file: File): Promise<QuestionPack> => {
+  const text = await file.text();
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Question pack file is not valid JSON.");
+  }
+  return parseQuestionPack(raw);
+};
+
+export const getPartTitle = (pack: QuestionPack, part: number): string =>
+  pack.parts.find(p => p.id === part)?.title || "";
+
+export const getPartQuestions = (pack: QuestionPack, part: number): Question[] =>
+  pack.questions.filter(q => q.part === part);
+
+// --- Local library of imported packs ---
+
+export const loadCustomPacks = (): QuestionPack[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_PACKS_KEY) || "[]");
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap((raw: unknown) => {
+      try {
+        return [parseQuestionPack(raw)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomPack = (pack: QuestionPack): QuestionPack[] => {
+  if (BUILTIN_QUESTION_PACKS.some(p => p.id === pack.id)) {
+    throw new Error(`"${pack.id}" is reserved by a built-in question pack.`);
+  }
+  const packs = [...loadCustomPacks().filter(p => p.id !== pack.id), pack];
+  localStorage.setItem(CUSTOM_PACKS_KEY, JSON.stringify(packs));
+  return packs;
+};
+
+export const deleteCustomPack = (id: string): QuestionPack[] => {
+  const packs = loadCustomPacks().filter(p => p.id !== id);
+  localStorage.setItem(CUSTOM_PACKS_KEY, JSON.stringify(packs));
+  return packs;
+};
+
+export const getAvailablePacks = (): QuestionPack[] => [...BUILTIN_QUESTION_PACKS, ...loadCustomPacks()];
+
+export const findPack = (id: string | null | undefined): QuestionPack | undefined =>
+  id ? getAvailablePacks().find(p => p.id === id) : undefined;
+
+export const loadActivePack = (): QuestionPack => {
+  try {
+    return findPack(localStorage.getItem(ACTIVE_PACK_KEY)) || DEFAULT_QUESTION_PACK;
+  } catch {
+    return DEFAULT_QUESTION_PACK;
+  }
+};
+
+export const saveActivePackId = (id: string) => {
+  try {
+    localStorage.setItem(ACTIVE_PACK_KEY, id);
+  } catch {
+    // Storage can be unavailable (private mode); switching still works for this visit.
+  }
+};
+
+// --- Editing packs in the app ---
+
+export const isBuiltinPack = (pack: QuestionPack): boolean => BUILTIN_QUESTION_PACKS.some(p => p.id === pack.id);
+
+// Built-in packs are never changed in place: editing one starts a personal copy.
+// Question ids are kept, so answers written against the original still line up.
+export const createPersonalPack = (pack: QuestionPack, title: string): QuestionPack => ({
+  ...pack,
+  id: `personal-${Date.now().toString(36)}`,
+  title,
+  version: "1.0.0",
+  parts: pack.parts.map(p => ({ ...p })),
+  categories: [...pack.categories],
+  questions: pack.questions.map(q => ({ ...q })),
+});
+
+// Ids are never reused, so an old answer can't attach itself to a new question.
+export const getNextQuestionId = (pack: QuestionPack): number =>
+  Math.max(0, ...pack.questions.map(q => q.id)) + 1;
+
+export const getNextPartId = (pack: QuestionPack): number =>
+  Math.max(0, ...pack.parts.map(p => p.id)) + 1;
+
+// Removing a question removes the follow-ups hanging off it as well.
+export const removeQuestion = (pack: QuestionPack, id: number): QuestionPack => {
+  const removed = new Set<number>([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    pack.questions.forEach(q => {
+      if (q.followUp && removed.has(q.followUp.parentId) && !removed.has(q.id)) {
+        removed.add(q.id);
+        grew = true;
+      }
+    });
+  }
+  return { ...pack, questions: pack.questions.filter(q => !removed.has(q.id)) };
+};
+
+// Swap a main question with its neighbour in the same part; follow-ups travel with their parent.
+export const moveQuestion = (pack: QuestionPack, id: number, direction: -1 | 1): QuestionPack => {
+  const question = pack.questions.find(q => q.id === id);
+  if (!question || question.followUp) return pack;
+  const siblings = pack.questions.filter(q => !q.followUp && q.part === question.part);
+  const index = siblings.indexOf(question);
+  const other = siblings[index + direction];
+  if (!other) return pack;
+  const questions = pack.questions.map(q => (q === question ? other : q === other ? question : q));
+  return { ...pack, questions };
+};
+
+// Moving a question to another part puts it (and its follow-ups) at the end of that part.
+export const setQuestionPart = (pack: QuestionPack, id: number, part: number): QuestionPack => {
+  const isMoved = (q: Question) => getRootQuestion(pack.questions, q).id === id;
+  const moved = pack.questions.filter(isMoved).map(q => ({ ...q, part }));
+  const questions = [...pack.questions.filter(q => !isMoved(q)), ...moved];
+  return { ...pack, questions: sortByPart({ ...pack, questions }) };
+};
+
+// Questions are asked in array order, so keep each part's questions together in part order.
+const sortByPart = (pack: QuestionPack): Question[] => {
+  const partOrder = pack.parts.map(p => p.id);
+  return pack.questions
+    .map((q, index) => ({ q, index }))
+    .sort((a, b) => partOrder.indexOf(a.q.part) - partOrder.indexOf(b.q.part) || a.index - b.index)
+    .map(({ q }) => q);
+};
@@ -0,0 +1,71 @@
+// Daily reminders for the paced mode, shown as local notifications through public/reminder-sw.js.
+// Nothing leaves the browser: there is no push server, so reminders only arrive while the page is
+// open (a background tab is enough), or via periodic sync where the browser offers it.
+
+const WORKER_URL = `${(import.meta as any)?.env?.BASE_URL ?? "/"}reminder-sw.js`;
+const REMINDER_TAG = "paced-reminder";
+const PERIODIC_SYNC_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+export type ReminderSetup = "enabled" | "denied" | "unsupported";
+
+export const canShowReminders = (): boolean =>
+  typeof navigator !== "undefined" && "serviceWorker" in navigator && typeof Notification !== "undefined";
+
+const registerWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  try {
+    await navigator.serviceWorker.register(WORKER_URL);
+    return await navigator.serviceWorker.ready;
+  } catch (error) {
+    console.warn("Reminder service worker could not be registered", error);
+    return null;
+  }
+};
+
+export const enableReminders = async (): Promise<ReminderSetup> => {
+  if (!canShowReminders()) return "unsupported";
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") return "denied";
+  const registration = await registerWorker();
+  if (!registration) return "unsupported";
+  try {
+    // Only installed apps in Chromium browsers have periodic sync; elsewhere this is a no-op
+    await (registration as any).periodicSync?.register(REMINDER_TAG, { minInterval: PERIODIC_SYNC_INTERVAL_MS });
+  } catch (error) {
+    console.warn("Periodic sync is not available", error);
+  }
+  return "enabled";
+};
+
+export const disableReminders = async (): Promise<void> => {
+  if (!canShowReminders()) return;
+  const registration = await navigator.serviceWorker.getRegistration(WORKER_URL);
+  try {
+    await (registration as any)?.periodicSync?.unregister(REMINDER_TAG);
+  } catch (error) {
+    console.warn("Periodic sync could not be removed", error);
+  }
+};
+
+const msUntil = (time: string, skipToday: boolean): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const now = new Date();
+  const next = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours || 0, minutes || 0);
+  if (skipToday || next.getTime() <= now.getTime()) next.setDate(next.getDate() + 1);
+  return next.getTime() - now.getTime();
+};
+
+// Browsers can't schedule a notification for later, so the page keeps a timer for the next
+// reminder time and re-arms it for the following day. Returns a function that cancels it.
+export const scheduleReminder = (time: string, title: string, body: string, skipToday: boolean): (() => void) => {
+  if (!canShowReminders() || Notification.permission !== "granted") return () => {};
+  let timer: ReturnType<typeof setTimeout>;
+  const arm = (skip: boolean) => {
+    timer = setTimeout(async () => {
+      const registration = await navigator.serviceWorker.getRegistration(WORKER_URL);
+      registration?.showNotification(title, { body, tag: REMINDER_TAG });
+      arm(true);
+    }, msUntil(time, skip));
+  };
+  arm(skipToday);
+  return () => clearTimeout(timer);
+};
@@ -0,0 +1,224 @@
+import { AnswerAttachments, AnswerMetaMap, Answers, AnswerValue, AnswerValues, DraggableItem, PairSession, QuestionPack, SessionFile, SummaryContent, WritingStatsMap, YearSummary } from "../types";
+import { BUILTIN_QUESTION_PACKS, DEFAULT_QUESTION_PACK } from "../constants";
+import { parseQuestionPack } from "./questionPackService";
+import { getDefaultReviewYear } from "./archiveService";
+import { normaliseAnswerMeta } from "./answerStatusService";
+import { normaliseAttachments } from "./attachmentService";
+import { normaliseWritingStats } from "./writingStatsService";
+
+export const SESSION_FILE_FORMAT = "year-in-review-40/session";
+export const SESSION_SCHEMA_VERSION = 2;
+
+// Each migration upgrades a file from `version` to `version + 1`.
+// Version 0 is a bare answers map ({ "1": "...", "2": "..." }) as produced by early exports.
+const MIGRATIONS: { [version: number]: (data: any) => any } = {
+  0: (answers: Answers) => ({
+    format: SESSION_FILE_FORMAT,
+    schemaVersion: 1,
+    exportedAt: new Date().toISOString(),
+    packId: DEFAULT_QUESTION_PACK.id,
+    answers,
+    summary: null,
+    boardItems: [],
+  }),
+  // v2 records which year the session reviews; older files assume the year they were exported in.
+  1: (data: any) => {
+    const exportedAt = new Date(data.exportedAt);
+    return {
+      ...data,
+      schemaVersion: 2,
+      year: getDefaultReviewYear(Number.isNaN(exportedAt.getTime()) ? new Date() : exportedAt),
+    };
+  },
+};
+
+const isBareAnswersMap = (data: any): boolean =>
+  !!data &&
+  typeof data === "object" &&
+  !Array.isArray(data) &&
+  Object.keys(data).length > 0 &&
+  Object.entries(data).every(([key, value]) => /^\d+$/.test(key) && typeof value === "string");
+
+const detectSchemaVersion = (data: any): number | null => {
+  if (data?.format === SESSION_FILE_FORMAT) {
+    const version = Number(data.schemaVersion);
+    return Number.isInteger(version) && version >= 1 ? version : null;
+  }
+  if (isBareAnswersMap(data)) return 0;
+  return null;
+};
+
+const normaliseAnswers = (raw: any): Answers => {
+  const answers: Answers = {};
+  if (!raw || typeof raw !== "object") return answers;
+  Object.entries(raw).forEach(([key, value]) => {
+    const id = Number(key);
+    if (Number.isInteger(id) && typeof value === "string") answers[id] = value;
+  });
+  return answers;
+};
+
+const isAnswerValue = (value: unknown): value is AnswerValue => {
+  if (typeof value === "string" || (typeof value === "number" && Number.isFinite(value))) return true;
+  if (Array.isArray(value)) return value.every(item => typeof item === "string");
+  return (
+    !!value &&
+    typeof value === "object" &&
+    Object.values(value).every(v => typeof v === "string" || (typeof v === "number" && Number.isFinite(v)))
+  );
+};
+
+const normaliseAnswerValues = (raw: any): AnswerValues | undefined => {
+  if (!raw || typeof raw !== "object") return undefined;
+  const values: AnswerValues = {};
+  Object.entries(raw).forEach(([key, value]) => {
+    const id = Number(key);
+    if (Number.isInteger(id) && isAnswerValue(value)) values[id] = value;
+  });
+  return values;
+};
+
+const normalisePair = (raw: any): PairSession | undefined => {
+  if (!raw || typeof raw !== "object" || !Array.isArray(raw.names) || raw.names.length !== 2) return undefined;
+  const names = raw.names.map((name: unknown) => String(name ?? "")) as [string, string];
+  const profiles = (Array.isArray(raw.profiles) ? raw.profiles : []).slice(0, 2).map((profile: any, index: number) => ({
+    name: typeof profile?.name === "string" ? profile.name : names[index],
+    answers: normaliseAnswers(profile?.answers),
+    answerValues: normaliseAnswerValues(profile?.answerValues),
+    answerMeta: normaliseAnswerMeta(profile?.answerMeta),
+    attachments: normaliseAttachments(profile?.attachments),
+    writingStats: normaliseWritingStats(profile?.writingStats),
+  }));
+  return { names, profiles };
+};
+
+const CARD_STYLES: SummaryContent["style"][] = ["ticket", "paper", "polaroid", "note"];
+
+// Cards the board can't draw are dropped rather than left to break it
+const normaliseCards = (raw: any[]): SummaryContent[] =>
+  raw
+    .filter(card => card && typeof card.title === "string" && typeof card.content === "string" && CARD_STYLES.includes(card.style))
+    .map(card => ({ title: card.title, content: card.content, keyword: String(card.keyword ?? ""), style: card.style }));
+
+const normaliseSummary = (raw: any): YearSummary | null => {
+  if (!raw || typeof raw !== "object" || !Array.isArray(raw.cards)) return null;
+  return {
+    cards: normaliseCards(raw.cards),
+    visualTags: Array.isArray(raw.visualTags) ? raw.visualTags.filter((tag: unknown) => typeof tag === "string") : [],
+    poem: String(raw.poem ?? ""),
+    analysis: String(raw.analysis ?? ""),
+    keyword: String(raw.keyword ?? ""),
+    animal: String(raw.animal ?? ""),
+  };
+};
+
+const normaliseBoardItems = (raw: any): DraggableItem[] =>
+  Array.isArray(raw)
+    ? raw.filter(
+        item =>
+          item &&
+          typeof item.id === "string" &&
+          (item.type === "text-card" || item.type === "image-upload" || item.type === "stats-card") &&
+          Number.isFinite(item.x) &&
+          Number.isFinite(item.y)
+      )
+    : [];
+
+// Upgrade and validate raw JSON. Returns null when the data is not a session file at all,
+// so callers can fall back to treating the upload as a plain document.
+export const parseSessionFile = (raw: unknown): SessionFile | null => {
+  let version = detectSchemaVersion(raw);
+  if (version === null) return null;
+  if (version > SESSION_SCHEMA_VERSION) {
+    throw new Error(
+      `Session file uses schema version ${version}, but this app only understands up to ${SESSION_SCHEMA_VERSION}.`
+    );
+  }
+
+  let data: any = raw;
+  while (version < SESSION_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from session schema version ${version}.`);
+    data = migrate(data);
+    version += 1;
+  }
+
+  let pack: QuestionPack | undefined;
+  if (data.pack) {
+    try {
+      pack = parseQuestionPack(data.pack);
+    } catch (error) {
+      console.warn("Ignoring invalid embedded question pack", error);
+    }
+  }
+
+  return {
+    format: SESSION_FILE_FORMAT,
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    exportedAt: typeof data.exportedAt === "string" ? data.exportedAt : new Date().toISOString(),
+    year: Number.isInteger(data.year) ? data.year : getDefaultReviewYear(),
+    packId: typeof data.packId === "string" && data.packId ? data.packId : pack?.id || DEFAULT_QUESTION_PACK.id,
+    pack,
+    answers: normaliseAnswers(data.answers),
+    answerValues: normaliseAnswerValues(data.answerValues),
+    answerMeta: normaliseAnswerMeta(data.answerMeta),
+    attachments: normaliseAttachments(data.attachments),
+    writingStats: normaliseWritingStats(data.writingStats),
+    pair: normalisePair(data.pair),
+    summary: normaliseSummary(data.summary),
+    boardItems: normaliseBoardItems(data.boardItems),
+  };
+};
+
+export const readSessionFile = async (file: File): Promise<SessionFile | null> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    return null;
+  }
+  return parseSessionFile(raw);
+};
+
+export const isJsonFile = (file: File): boolean =>
+  file.type === "application/json" || /\.json$/i.test(file.name);
+
+export const buildSessionFile = (session: {
+  year: number;
+  pack: QuestionPack;
+  answers: Answers;
+  answerValues?: AnswerValues;
+  answerMeta?: AnswerMetaMap;
+  attachments?: AnswerAttachments;
+  writingStats?: WritingStatsMap;
+  pair?: PairSession | null;
+  summary: YearSummary | null;
+  boardItems: DraggableItem[];
+}): SessionFile => ({
+  format: SESSION_FILE_FORMAT,
+  schemaVersion: SESSION_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  year: session.year,
+  packId: session.pack.id,
+  // Built-in packs ship with the app; only custom packs need to travel with the file.
+  pack: BUILTIN_QUESTION_PACKS.some(p => p.id === session.pack.id) ? undefined : session.pack,
+  answers: session.answers,
+  answerValues: session.answerValues,
+  answerMeta: session.answerMeta,
+  attachments: session.attachments,
+  writingStats: session.writingStats,
+  pair: session.pair || undefined,
+  summary: session.summary,
+  boardItems: session.boardItems,
+});
+
+export const downloadJson = (data: unknown, filename: string) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // Give the browser a moment to start the download before revoking.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,22 @@
+import { Question, SummaryTheme } from "../types";
+
+export const SUMMARY_THEMES: SummaryTheme[] = ["journey", "emotions", "tastes", "future"];
+
+// Category keywords that route a question into one of the four summary card themes.
+// Matching on category rather than question id keeps grouping correct for every question pack.
+const SUMMARY_THEME_CATEGORIES: { theme: SummaryTheme; categories: string[] }[] = [
+  { theme: "journey", categories: ["探索", "足迹", "旅行", "城市", "Exploring", "Footprints", "Travel", "Cities"] },
+  { theme: "emotions", categories: ["激情", "情感", "变化", "成长", "思念", "Passion", "Love", "Change", "Growth", "Missing"] },
+  { theme: "tastes", categories: ["旋律", "娱乐", "阅读", "发现", "光影", "味蕾", "Soundtrack", "Entertainment", "Reading", "Discovery", "Film", "Food"] },
+  { theme: "future", categories: ["愿望", "遗憾", "期待", "总结", "Wishes", "Regrets", "Hopes", "Summary"] },
+];
+
+export const getCategoryTheme = (category: string): SummaryTheme | undefined =>
+  SUMMARY_THEME_CATEGORIES.find(({ categories }) =>
+    categories.some(keyword => category.includes(keyword))
+  )?.theme;
+
+// An explicit theme (set in the pack or the editor) wins over the category keywords.
+// Questions that match neither only appear in the full transcript, not in a card's material.
+export const getSummaryTheme = (question: Question): SummaryTheme | undefined =>
+  question.theme || getCategoryTheme(question.category);
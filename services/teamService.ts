@@ -0,0 +1,98 @@
+import { Question, SessionFile, TeamMember, TeamSession } from "../types";
+import { hasAnswerText, getAnswerStatus } from "./answerStatusService";
+import { splitAnswerItems } from "./answerValueService";
+
+// Titles people wrap in book-title marks or quotes, even inside prose ("重读了《活着》")
+const QUOTED_TITLE = /《([^》]{1,30})》|“([^”]{1,30})”|"([^"]{1,30})"/g;
+const MAX_MENTIONS = 12;
+
+export interface EntityCount {
+  label: string; // as the first member who mentioned it wrote it
+  count: number; // members who mentioned it, not mentions
+}
+
+const normalise = (text: string): string =>
+  text.toLowerCase().replace(/[\s《》"“”'‘’「」。.!！?？]/g, "");
+
+// Everyone who answered the pack; a pair file contributes both people. Files for other
+// packs are left out, since their question ids mean something else.
+export const buildTeamSession = (sessions: SessionFile[], packId: string): TeamSession => {
+  const members: TeamMember[] = [];
+  let skippedFiles = 0;
+  sessions.forEach(session => {
+    if (session.packId !== packId) {
+      skippedFiles++;
+      return;
+    }
+    if (session.pair?.profiles.length) {
+      session.pair.profiles.forEach(({ answers, answerValues, answerMeta }) =>
+        members.push({ answers, answerValues, answerMeta })
+      );
+    } else {
+      members.push({ answers: session.answers, answerValues: session.answerValues, answerMeta: session.answerMeta });
+    }
+  });
+  return { members, skippedFiles };
+};
+
+// A small stable hash, so answers keep their shuffled order across renders. The final mixing
+// makes keys that share a prefix (the question id) land in unrelated orders.
+const hash = (text: string): number => {
+  let value = 0;
+  for (let i = 0; i < text.length; i++) value = (value * 31 + text.charCodeAt(i)) | 0;
+  value = Math.imul(value ^ (value >>> 16), 0x85ebca6b);
+  value = Math.imul(value ^ (value >>> 13), 0xc2b2ae35);
+  return value ^ (value >>> 16);
+};
+
+// A stable order for one question's items that changes from question to question, so answers
+// listed question by question can't be lined up into one person's transcript
+export const shuffleForQuestion = <T>(items: T[], questionId: number, key: (item: T, index: number) => string): T[] =>
+  items
+    .map((item, index) => ({ item, rank: hash(`${questionId}:${key(item, index)}`) }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ item }) => item);
+
+// Every written answer to a question, in an order that doesn't follow the file order.
+// Declined questions stay out entirely.
+export const getAnonymisedAnswers = (team: TeamSession, question: Question): string[] =>
+  shuffleForQuestion(
+    team.members
+      .filter(member => hasAnswerText(getAnswerStatus(question.id, member.answers, member.answerMeta)))
+      .map(member => (member.answers[question.id] || "").trim())
+      .filter(Boolean),
+    question.id,
+    answer => answer
+  );
+
+const getEntities = (member: TeamMember, question: Question): string[] => {
+  const value = member.answerValues?.[question.id];
+  if (Array.isArray(value)) return value;
+  const answer = member.answers[question.id] || "";
+  const titles = [...answer.matchAll(QUOTED_TITLE)].map(match => match[1] || match[2] || match[3]);
+  const items = splitAnswerItems(answer);
+  // A single item is usually a sentence, which only counts when it's short
+  return [...titles, ...(items.length > 1 || answer.trim().length <= 20 ? items : [])];
+};
+
+// Cities, books, songs… anything at least two people named for a question, most common first
+export const countEntities = (team: TeamSession, question: Question): EntityCount[] => {
+  const counts = new Map<string, EntityCount>();
+  team.members.forEach(member => {
+    if (!hasAnswerText(getAnswerStatus(question.id, member.answers, member.answerMeta))) return;
+    const seen = new Set<string>();
+    getEntities(member, question).forEach(entity => {
+      const label = entity.trim();
+      const key = normalise(label);
+      if (!key || seen.has(key)) return;
+      seen.add(key);
+      const entry = counts.get(key) || { label, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    });
+  });
+  return [...counts.values()]
+    .filter(entry => entry.count > 1)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_MENTIONS);
+};
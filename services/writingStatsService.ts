@@ -0,0 +1,103 @@
+import { Answers, Question, WritingStats, WritingStatsMap } from "../types";
+import { getMainQuestions, getQuestionFlow } from "./followUpService";
+
+// Time between two interactions counts in full up to this gap; longer pauses (tea, another tab)
+// only count this much, so a question left open overnight doesn't dominate the stats.
+export const IDLE_GAP_MS = 60_000;
+
+// Opening a question and moving straight on isn't a visit worth counting
+export const MIN_VISIT_MS = 1_000;
+
+const EMPTY_STATS: WritingStats = { timeMs: 0, typed: 0, visits: 0, edits: 0, hints: 0 };
+
+const update = (stats: WritingStatsMap, id: number, change: (current: WritingStats) => Partial<WritingStats>): WritingStatsMap => {
+  const current = stats[id] || EMPTY_STATS;
+  return { ...stats, [id]: { ...current, ...change(current) } };
+};
+
+export const addWritingTime = (stats: WritingStatsMap, id: number, ms: number, typed: number = 0): WritingStatsMap =>
+  ms <= 0 && typed <= 0
+    ? stats
+    : update(stats, id, current => ({ timeMs: current.timeMs + Math.max(0, ms), typed: current.typed + Math.max(0, typed) }));
+
+export const recordVisit = (stats: WritingStatsMap, id: number, changedAnswer: boolean): WritingStatsMap =>
+  update(stats, id, current => ({ visits: current.visits + 1, edits: current.edits + (changedAnswer ? 1 : 0) }));
+
+export const recordHintUse = (stats: WritingStatsMap, id: number): WritingStatsMap =>
+  update(stats, id, current => ({ hints: current.hints + 1 }));
+
+// Several people's stats added up per question, e.g. for a pair's joint board
+export const mergeWritingStats = (maps: WritingStatsMap[]): WritingStatsMap => {
+  let merged: WritingStatsMap = {};
+  maps.forEach(stats => {
+    Object.entries(stats).forEach(([key, add]) => {
+      merged = update(merged, Number(key), current => ({
+        timeMs: current.timeMs + add.timeMs,
+        typed: current.typed + add.typed,
+        visits: current.visits + add.visits,
+        edits: current.edits + add.edits,
+        hints: current.hints + add.hints,
+      }));
+    });
+  });
+  return merged;
+};
+
+export interface WritingStatsRow {
+  question: Question;
+  number: number; // main question number; follow-ups share their parent's
+  chars: number; // length of the answer as it stands
+  stats: WritingStats;
+}
+
+export interface WritingStatsSummary {
+  rows: WritingStatsRow[];
+  totalTimeMs: number;
+  totalChars: number;
+  totalEdits: number;
+  totalHints: number;
+  // Most time per answered character; unanswered questions that still took time rank first
+  hardest: WritingStatsRow[];
+}
+
+const countChars = (text: string | undefined): number => [...(text || "").replace(/\s+/g, "")].length;
+
+export const summariseWritingStats = (stats: WritingStatsMap, questions: Question[], answers: Answers): WritingStatsSummary => {
+  const mainQuestions = getMainQuestions(questions);
+  let number = 0;
+  const rows = getQuestionFlow(questions, answers).map(question => {
+    if (!question.followUp) number = mainQuestions.indexOf(question) + 1;
+    return { question, number, chars: countChars(answers[question.id]), stats: stats[question.id] || EMPTY_STATS };
+  });
+  const effort = (row: WritingStatsRow) => row.stats.timeMs / Math.max(1, row.chars);
+  return {
+    rows,
+    totalTimeMs: rows.reduce((sum, row) => sum + row.stats.timeMs, 0),
+    totalChars: rows.reduce((sum, row) => sum + row.chars, 0),
+    totalEdits: rows.reduce((sum, row) => sum + row.stats.edits, 0),
+    totalHints: rows.reduce((sum, row) => sum + row.stats.hints, 0),
+    hardest: rows
+      .filter(row => row.stats.timeMs >= MIN_VISIT_MS)
+      .sort((a, b) => effort(b) - effort(a))
+      .slice(0, 3),
+  };
+};
+
+// Validate stats coming from files or storage
+export const normaliseWritingStats = (raw: any): WritingStatsMap | undefined => {
+  if (!raw || typeof raw !== "object") return undefined;
+  const count = (value: unknown) => (typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0);
+  const stats: WritingStatsMap = {};
+  Object.entries(raw).forEach(([key, value]: [string, any]) => {
+    const id = Number(key);
+    if (!Number.isInteger(id) || !value || typeof value !== "object") return;
+    stats[id] = {
+      timeMs: count(value.timeMs),
+      typed: count(value.typed),
+      visits: count(value.visits),
+      edits: count(value.edits),
+      hints: count(value.hints),
+    };
+  });
+  return stats;
+};
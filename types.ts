@@ -1,14 +1,118 @@
+// How a question is answered. 'text' (the default) is the free-writing notebook page.
+export type AnswerType = 'text' | 'short' | 'list' | 'choice' | 'scale' | 'fields';
+
+export interface ScaleSpec {
+  min: number;
+  max: number;
+  minLabel?: string;
+  maxLabel?: string;
+}
+
+// One sub-answer of a 'fields' question, e.g. "happier or sadder" in Q18
+export interface AnswerField {
+  id: string;
+  label: string;
+  type: 'short' | 'choice' | 'scale';
+  options?: string[]; // choice
+  scale?: ScaleSpec; // scale
+}
+
+// When a follow-up is asked: 'yes' / 'no' read the parent's answer as affirmative or negative,
+// 'answered' means any answer, and a list of options matches if the answer mentions one of them.
+export type FollowUpCondition = 'yes' | 'no' | 'answered' | string[];
+
+export interface FollowUpRule {
+  parentId: number;
+  when: FollowUpCondition;
+}
+
+// The four summary cards. Each answer is written into one of them, by its question's theme or category.
+export type SummaryTheme = 'journey' | 'emotions' | 'tastes' | 'future';
+
 export interface Question {
   id: number;
   part: number;
   text: string;
   category: string;
+  answerType?: AnswerType;
+  options?: string[]; // choice
+  scale?: ScaleSpec; // scale
+  fields?: AnswerField[]; // fields
+  followUp?: FollowUpRule; // optional sub-question, asked right after its parent
+  theme?: SummaryTheme; // summary card; derived from the category when left out
+}
+
+export interface QuestionPart {
+  id: number;
+  title: string; // e.g. "探索 · 启程"
+}
+
+// Languages the UI and generated text come in. A session's language is its pack's locale.
+export type Locale = 'zh-CN' | 'en';
+
+// A questionnaire pack: the set of questions a session is run against.
+// Packs are plain JSON so teams can author their own (mid-year check-ins, retros...).
+export interface QuestionPack {
+  id: string;
+  title: string; // e.g. "年度四十问"
+  description?: string;
+  locale: string; // BCP 47 tag, e.g. "zh-CN"
+  version: string;
+  parts: QuestionPart[];
+  categories: string[];
+  questions: Question[];
 }
 
 export interface Answers {
   [key: number]: string;
 }
 
+// Structured value of a typed question, stored next to its plain-text form in Answers:
+// short/choice -> string, scale -> number, list -> string[], fields -> { [fieldId]: string | number }
+export type AnswerValue = string | number | string[] | { [fieldId: string]: string | number };
+
+export interface AnswerValues {
+  [key: number]: AnswerValue;
+}
+
+// How an answer came to be. Only answered, imported and ai-assisted answers carry text;
+// skipped means "not now", declined means "I'd rather not say" and must never be filled in.
+export type AnswerStatus = 'answered' | 'skipped' | 'declined' | 'imported' | 'ai-assisted';
+
+export interface AnswerMeta {
+  status: AnswerStatus;
+  createdAt: number; // epoch ms, first time the question got a status
+  updatedAt: number; // epoch ms
+  edited?: boolean; // imported text that the user changed afterwards
+}
+
+export interface AnswerMetaMap {
+  [key: number]: AnswerMeta;
+}
+
+// How an uploaded file's answer was found: the numbered-text parser, the model, a
+// spreadsheet column, or the whole text dropped on the first question when nothing else worked.
+export type ExtractionMethod = 'regex' | 'llm' | 'csv' | 'fallback';
+
+export interface ExtractedAnswer {
+  answer: string;
+  method: ExtractionMethod;
+  source?: string; // the part of the document it came from, shown when reviewing the import
+  confidence?: number; // 0-1, when the method reports one
+  fileName?: string; // set when several files were imported together
+  status?: AnswerStatus; // from an exported CSV's status column; skipped and declined rows have no answer
+}
+
+export interface ExtractedAnswers {
+  [key: number]: ExtractedAnswer;
+}
+
+// Several imported files answering one question differently; the user picks in the import review
+export interface ImportConflict {
+  questionId: number;
+  candidates: ExtractedAnswer[]; // one per file, each with its fileName
+}
+
 export interface SummaryContent {
   title: string;
   content: string;
@@ -16,6 +120,32 @@ export interface SummaryContent {
   style: 'ticket' | 'paper' | 'polaroid' | 'note'; // Visual style of the card
 }
 
+// How writing one answer went, measured locally in QuestionFlow. Time only counts while the
+// user is active on the question (see services/writingStatsService.ts).
+export interface WritingStats {
+  timeMs: number;
+  typed: number; // characters typed, including ones later deleted
+  visits: number; // times the question was opened and worked on
+  edits: number; // visits that changed the answer
+  hints: number; // inspiration requests
+}
+
+export interface WritingStatsMap {
+  [questionId: number]: WritingStats;
+}
+
+// A photo or hand-drawn sketch attached to one answer, kept as a data URL so it travels with drafts and files.
+export interface AnswerAttachment {
+  id: string;
+  kind: 'photo' | 'sketch';
+  dataUrl: string;
+  createdAt: number; // epoch ms
+}
+
+export interface AnswerAttachments {
+  [questionId: number]: AnswerAttachment[];
+}
+
 export interface YearSummary {
   cards: SummaryContent[];
   visualTags: string[];
@@ -25,20 +155,152 @@ export interface YearSummary {
   animal: string;
 }
 
+// An unfinished session, saved locally while the user types so it survives closing the tab.
+// Pair mode: two people answer the same pack on one device, one after the other.
+// A profile is one person's finished answers (services/pairService.ts).
+export interface ParticipantProfile {
+  name: string;
+  answers: Answers;
+  answerValues?: AnswerValues;
+  answerMeta?: AnswerMetaMap;
+  attachments?: AnswerAttachments;
+  writingStats?: WritingStatsMap;
+}
+
+export interface PairSession {
+  names: [string, string]; // in answering order
+  profiles: ParticipantProfile[]; // finished participants; whoever is next answers in the main session state
+}
+
+// Team retro mode: a facilitator imports everyone's answer files. Members carry no names
+// or file names, so nothing in the aggregate can be traced back to a person (services/teamService.ts).
+export interface TeamMember {
+  answers: Answers;
+  answerValues?: AnswerValues;
+  answerMeta?: AnswerMetaMap;
+}
+
+export interface TeamSession {
+  members: TeamMember[];
+  skippedFiles: number; // files that weren't answers to the team's pack
+}
+
+// Journal import: dated entries from a Day One export or a folder of Markdown notes, and the
+// passages that look relevant to each question (services/journalService.ts). Kept in memory only.
+export interface JournalEntry {
+  date: string; // YYYY-MM-DD
+  text: string;
+  place?: string; // Day One's locality, when the entry has a location
+}
+
+export interface JournalExcerpt {
+  date: string;
+  place?: string;
+  text: string;
+  score: number; // topic words found; higher is more relevant
+}
+
+export interface JournalSuggestions {
+  [questionId: number]: JournalExcerpt[];
+}
+
+// Spread-out mode: a few questions a day instead of one sitting (services/pacedService.ts).
+// Dates are local calendar days as YYYY-MM-DD, so they compare as strings.
+export interface PacedPlan {
+  perDay: number;
+  startDate: string;
+  endDate: string; // the summary is generated once this day has passed, whatever is still open
+  batch: { date: string; questionIds: number[] }; // the day's main questions, fixed when the day is first opened
+  completedDays: string[]; // days whose batch was fully answered, skipped or declined; drives the streak
+  reminderTime?: string; // HH:MM for the daily notification; unset means no reminders
+}
+
+export interface SessionDraft {
+  year: number; // the year under review
+  packId: string;
+  answers: Answers;
+  answerValues?: AnswerValues;
+  currentIndex: number; // QuestionFlow position
+  answerMeta?: AnswerMetaMap;
+  attachments?: AnswerAttachments;
+  writingStats?: WritingStatsMap;
+  flagged?: number[]; // question ids marked "revisit later"
+  paced?: PacedPlan; // set while answering in spread-out mode
+  pair?: PairSession;
+  summary: YearSummary | null;
+  boardItems?: DraggableItem[]; // SummaryBoard layout, once the board has been shown
+  updatedAt: number; // epoch ms
+}
+
 export interface DraggableItem {
   id: string;
-  type: 'text-card' | 'image-upload';
+  type: 'text-card' | 'image-upload' | 'stats-card';
   x: number;
   y: number;
   rotation: number;
   content?: SummaryContent;
   imageUrl?: string;
+  caption?: string; // shown under pinned answer attachments
+  attachmentId?: string; // the AnswerAttachment this photo was pinned from
   zIndex: number;
 }
 
 export enum AppState {
   WELCOME,
+  PACED, // spread-out mode: today's questions, streak and reminders
+  PAIR_HANDOFF, // pair mode: the first person is done, pass the device on
+  TEAM, // team retro: everyone's answers, anonymised and aggregated
   QUESTIONS,
+  REVIEW, // pre-submit check before the summary is generated
+  IMPORT_REVIEW, // check and correct answers read from an uploaded file
   ANALYZING,
   SUMMARY
-}
\ No newline at end of file
+}
+
+// A complete session saved to disk: restoring it needs no LLM call.
+// Bump SESSION_SCHEMA_VERSION (services/sessionFileService.ts) and add a migration when this changes.
+export interface SessionFile {
+  format: 'year-in-review-40/session';
+  schemaVersion: number;
+  exportedAt: string; // ISO 8601
+  year: number;
+  packId: string;
+  pack?: QuestionPack; // embedded so custom packs travel with the file
+  answers: Answers;
+  answerValues?: AnswerValues;
+  answerMeta?: AnswerMetaMap;
+  attachments?: AnswerAttachments;
+  writingStats?: WritingStatsMap;
+  pair?: PairSession; // a joint review; both people's answers live in its profiles
+  summary: YearSummary | null;
+  boardItems: DraggableItem[];
+}
+
+// One year's finished review in the local archive, keyed by year and pack.
+export interface ArchiveEntry {
+  key: string; // `${year}/${packId}`
+  year: number;
+  packId: string;
+  pack?: QuestionPack; // snapshot of custom packs, so old years reopen after the pack changes
+  answers: Answers;
+  answerValues?: AnswerValues;
+  answerMeta?: AnswerMetaMap;
+  attachments?: AnswerAttachments;
+  writingStats?: WritingStatsMap;
+  summary: YearSummary | null;
+  boardItems: DraggableItem[];
+  updatedAt: number; // epoch ms
+}
+
+export type ComparisonStatus = 'unchanged' | 'changed' | 'new' | 'dropped' | 'unanswered';
+
+// One question answered in two different years.
+export interface AnswerComparison {
+  question: Question;
+  current: string;
+  previous: string;
+  status: ComparisonStatus;
+  added: string[]; // list items only in this year's answer (e.g. new cities)
+  removed: string[]; // list items only in the earlier answer
+  flips: { from: string; to: string }[]; // opposites that swapped, e.g. 悲伤 → 快乐
+}
@@ -1,7 +1,29 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// pdf.js loads CJK character maps from a directory at runtime. They are served by the dev server and
+// copied into the build under /pdfjs-cmaps/, so Chinese PDFs import offline and without a CDN.
+const PDF_CMAPS_DIR = path.resolve(__dirname, 'node_modules/pdfjs-dist/cmaps');
+
+const pdfCMaps = (): Plugin => ({
+  name: 'pdfjs-cmaps',
+  configureServer(server) {
+    server.middlewares.use('/pdfjs-cmaps', (req, res, next) => {
+      const file = path.join(PDF_CMAPS_DIR, path.basename(decodeURIComponent((req.url || '').split('?')[0])));
+      if (!fs.existsSync(file)) return next();
+      res.setHeader('Content-Type', 'application/octet-stream');
+      fs.createReadStream(file).pipe(res);
+    });
+  },
+  generateBundle() {
+    fs.readdirSync(PDF_CMAPS_DIR).forEach(name => {
+      this.emitFile({ type: 'asset', fileName: `pdfjs-cmaps/${name}`, source: fs.readFileSync(path.join(PDF_CMAPS_DIR, name)) });
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +31,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), pdfCMaps()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)